@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFreq" AS ENUM ('daily', 'weekly');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "BookingSeries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "freq" "RecurrenceFreq" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "until" TIMESTAMP(3),
+    "count" INTEGER,
+    "exceptions" TIMESTAMP(3)[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "BookingSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingSeries" ADD CONSTRAINT "BookingSeries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
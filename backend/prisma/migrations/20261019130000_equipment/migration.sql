@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "Equipment" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+
+    CONSTRAINT "Equipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_AuditoryToEquipment" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_AuditoryToEquipment_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Equipment_code_key" ON "Equipment"("code");
+
+-- CreateIndex
+CREATE INDEX "_AuditoryToEquipment_B_index" ON "_AuditoryToEquipment"("B");
+
+-- AddForeignKey
+ALTER TABLE "_AuditoryToEquipment" ADD CONSTRAINT "_AuditoryToEquipment_A_fkey" FOREIGN KEY ("A") REFERENCES "Auditory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AuditoryToEquipment" ADD CONSTRAINT "_AuditoryToEquipment_B_fkey" FOREIGN KEY ("B") REFERENCES "Equipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Начальный справочник: те же типы, что фронтенд раньше хранил в EQUIP_LABEL
+INSERT INTO "Equipment" ("id", "code", "label") VALUES
+    ('projector', 'projector', 'Проектор'),
+    ('microphone', 'microphone', 'Микрофон'),
+    ('wifi', 'wifi', 'Wi-Fi'),
+    ('computers', 'computers', 'Компьютеры'),
+    ('board', 'board', 'Доска');
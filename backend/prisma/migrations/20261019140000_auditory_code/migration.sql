@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Auditory" ADD COLUMN     "code" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Auditory_code_key" ON "Auditory"("code");
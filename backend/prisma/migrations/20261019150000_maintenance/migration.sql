@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Maintenance" (
+    "id" TEXT NOT NULL,
+    "auditoryId" TEXT,
+    "deviceId" TEXT,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Maintenance_pkey" PRIMARY KEY ("id"),
+    -- Обслуживание относится либо к аудитории, либо к устройству
+    CONSTRAINT "Maintenance_target_check" CHECK (("auditoryId" IS NULL) <> ("deviceId" IS NULL))
+);
+
+-- AddForeignKey
+ALTER TABLE "Maintenance" ADD CONSTRAINT "Maintenance_auditoryId_fkey" FOREIGN KEY ("auditoryId") REFERENCES "Auditory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Maintenance" ADD CONSTRAINT "Maintenance_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
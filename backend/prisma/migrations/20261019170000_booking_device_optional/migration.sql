@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Booking" ALTER COLUMN "deviceId" DROP NOT NULL;
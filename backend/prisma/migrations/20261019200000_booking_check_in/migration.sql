@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "BookingStatus" AS ENUM ('booked', 'checked_in', 'no_show');
+
+-- AlterEnum
+ALTER TYPE "NotificationKind" ADD VALUE 'no_show';
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "checkInRequired" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "checkedInAt" TIMESTAMP(3),
+ADD COLUMN     "status" "BookingStatus" NOT NULL DEFAULT 'booked';
+
+-- Брони, созданные до появления отметок, не снимаются и не попадают в статистику неявок
+UPDATE "Booking" SET "checkInRequired" = false;
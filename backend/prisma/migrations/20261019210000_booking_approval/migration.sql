@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "BookingStatus" ADD VALUE 'pending';
+ALTER TYPE "BookingStatus" ADD VALUE 'rejected';
+
+-- AlterEnum
+ALTER TYPE "NotificationKind" ADD VALUE 'booking_approved';
+ALTER TYPE "NotificationKind" ADD VALUE 'booking_rejected';
+
+-- AlterTable
+ALTER TABLE "Auditory" ADD COLUMN     "requiresApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "decidedAt" TIMESTAMP(3),
+ADD COLUMN     "decisionReason" TEXT;
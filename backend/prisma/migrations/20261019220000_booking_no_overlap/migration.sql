@@ -0,0 +1,37 @@
+-- Пересечения броней запрещены на уровне БД: два параллельных запроса не смогут занять один интервал,
+-- даже если оба прошли проверку в приложении. Диапазон полуоткрытый [start, end), как в overlap.ts,
+-- поэтому брони «встык» допустимы. Статусы в WHERE совпадают с BLOCKING_STATUSES.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "legacyOverlap" BOOLEAN NOT NULL DEFAULT false;
+
+-- Раньше устройства на пересечения не проверялись, поэтому в существующих данных пересечения уже есть.
+-- Такие брони не трогаем, а выводим из-под ограничений: из каждой пары пересекающихся помечается
+-- более поздняя (по id), так что непомеченные брони между собой не пересекаются. Пустые и обратные
+-- интервалы тоже помечаются — tsrange для них не строится.
+UPDATE "Booking" SET "legacyOverlap" = true WHERE "startTime" >= "endTime";
+
+UPDATE "Booking" b SET "legacyOverlap" = true
+WHERE b."status" IN ('booked', 'checked_in', 'no_show')
+  AND EXISTS (
+    SELECT 1 FROM "Booking" o
+    WHERE o."id" < b."id"
+      AND o."status" IN ('booked', 'checked_in', 'no_show')
+      AND (o."auditoryId" = b."auditoryId" OR o."deviceId" = b."deviceId")
+      AND o."startTime" < b."endTime"
+      AND o."endTime" > b."startTime"
+  );
+
+-- AddCheckConstraint
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_interval_check" CHECK ("startTime" < "endTime" OR "legacyOverlap");
+
+-- AddExclusionConstraint
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_auditory_no_overlap"
+  EXCLUDE USING gist ("auditoryId" WITH =, tsrange("startTime", "endTime", '[)') WITH &&)
+  WHERE ("status" IN ('booked', 'checked_in', 'no_show') AND NOT "legacyOverlap");
+
+-- AddExclusionConstraint
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_device_no_overlap"
+  EXCLUDE USING gist ("deviceId" WITH =, tsrange("startTime", "endTime", '[)') WITH &&)
+  WHERE ("deviceId" IS NOT NULL AND "status" IN ('booked', 'checked_in', 'no_show') AND NOT "legacyOverlap");
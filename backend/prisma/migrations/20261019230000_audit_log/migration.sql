@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "AuditEntity" AS ENUM ('device', 'auditory', 'booking');
+
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('created', 'updated', 'deleted');
+
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL,
+    "entity" "AuditEntity" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_entity_entityId_createdAt_idx" ON "AuditLog"("entity", "entityId", "createdAt");
+
+-- Журнал только пополняется: изменить или удалить запись нельзя даже прямым запросом
+CREATE FUNCTION "AuditLog_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditLog is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditLog_no_change"
+  BEFORE UPDATE OR DELETE ON "AuditLog"
+  FOR EACH ROW EXECUTE FUNCTION "AuditLog_append_only"();
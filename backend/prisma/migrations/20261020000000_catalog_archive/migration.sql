@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Auditory" ADD COLUMN "archivedAt" TIMESTAMP(3);
@@ -1,115 +1,1091 @@
-import Fastify from 'fastify'
+import Fastify, { type FastifyReply } from 'fastify'
 import cors from '@fastify/cors'
 import helmet from '@fastify/helmet'
+import swagger from '@fastify/swagger'
+import rateLimit from '@fastify/rate-limit'
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox'
 import prismaPlugin from './plugins/prisma.js'
+import problemsPlugin from './plugins/problems.js'
+import authPlugin, { CORS_ORIGINS, canManageBooking, canApproveBookings, canReadAudit, type SessionUser } from './plugins/auth.js'
+import eventsPlugin from './plugins/events.js'
+import schedulerPlugin from './plugins/scheduler.js'
+import auditPlugin, { type AuditChange } from './plugins/audit.js'
+import notificationsPlugin from './plugins/notifications.js'
+import mailerPlugin from './plugins/mailer.js'
+import checkInPlugin, { CHECK_IN_WINDOW_MINUTES, checkInDeadline } from './plugins/checkIn.js'
+import { hashPassword, verifyPassword } from './password.js'
 import { 
   ValidationProblem, 
+  RegisterSchema,
+  LoginSchema,
+  UpdateUserRoleSchema,
   CreateDeviceSchema, 
   CreateAuditorySchema, 
   CreateBookingSchema,
   UpdateDeviceSchema,
+  DevicesQuerySchema,
+  AuditoriesQuerySchema,
+  AvailableAuditoriesQuerySchema,
   UpdateAuditorySchema,
-  UpdateBookingSchema 
+  CreateEquipmentSchema,
+  UpdateEquipmentSchema,
+  UpdateBookingSchema,
+  BookingsQuerySchema,
+  RoomsQuerySchema,
+  MaintenanceQuerySchema,
+  CreateMaintenanceSchema,
+  BookingScopeQuerySchema,
+  AvailabilityQuerySchema,
+  CalendarFeedQuerySchema,
+  ImportBookingsQuerySchema,
+  NotificationsQuerySchema,
+  NoShowStatsQuerySchema,
+  ApproveBookingSchema,
+  RejectBookingSchema,
+  CreateRoomWatchSchema,
+  AuditQuerySchema,
+  ArchiveSchema,
+  IdParamsSchema,
+  ProblemResponses,
+  ConflictResponses,
+  NoContentSchema,
+  CsvFileSchema,
+  CalendarFileSchema,
+  UserSchema,
+  CalendarTokenSchema,
+  NoShowStatsSchema,
+  CsvImportReportSchema,
+  DeviceSchema,
+  DevicePageSchema,
+  DeviceAvailabilitySchema,
+  BusyDevicesSchema,
+  EquipmentSchema,
+  AuditorySchema,
+  AuditoryPageSchema,
+  MaintenanceSchema,
+  CreatedMaintenanceSchema,
+  RoomPageSchema,
+  BookingSchema,
+  BookingPageSchema,
+  CreatedSeriesSchema,
+  UpdatedSeriesSchema,
+  TimetableImportReportSchema,
+  ImportedEventSchema,
+  ArchiveImpactSchema,
+  ArchivedDeviceSchema,
+  ArchivedAuditorySchema,
+  AuditPageSchema,
+  NotificationPageSchema,
+  RoomWatchSchema
 } from './types.js'
+import {
+  findConflicts,
+  findConflictsForEach,
+  findMaintenanceConflicts,
+  overlaps,
+  conflictDetail,
+  maintenanceDetail,
+  splitAvailability,
+  BLOCKING_STATUSES,
+  isOverlapViolation,
+  type BookingResources,
+  type Interval
+} from './overlap.js'
+import { exceedsOccurrenceLimit, expandRecurrence, MAX_OCCURRENCES, type RecurrenceRule } from './recurrence.js'
+import { pageArgs, containsText } from './pagination.js'
+import { bookingsToICalendar, parseICalendar } from './ical.js'
+import { csvRecords, toCsv } from './csv.js'
+import { namedSchemasToComponents } from './openapiComponents.js'
+import { bookingMail, seriesMail } from './mailTemplates.js'
+import { Prisma, type BookingStatus } from './generated/prisma/client.js'
+import { Type as T, type Static, type TSchema } from 'typebox'
+import { Value } from 'typebox/value'
+
+// Токен календарной подписки передаётся в query (?token=) — в журнал запросов он попадать не должен
+const redactToken = (url: string) => url.replace(/([?&]token=)[^&#]*/g, '$1[REDACTED]')
 
 export async function buildApp() {
   const app = Fastify({
-    logger: true,
+    logger: {
+      serializers: {
+        // Как стандартный сериализатор Fastify, но без секрета в url
+        req: (req) => ({
+          method: req.method,
+          url: redactToken(req.url),
+          host: req.host,
+          remoteAddress: req.ip
+        })
+      }
+    },
+    // API стоит за одним nginx: адрес клиента берём из последнего X-Forwarded-For, его дописывает nginx
+    trustProxy: 1,
     schemaErrorFormatter: (errors, dataVar) => new ValidationProblem('Ошибка валидации', errors, dataVar)
   }).withTypeProvider<TypeBoxTypeProvider>()
 
   await app.register(helmet)
+  // credentials: true нужен для cookie сессии; заголовки и методы с "*" браузер при этом не принимает,
+  // поэтому разрешённые заголовки cors берёт из preflight-запроса.
+  // С cookie нельзя отражать любой Origin — иначе любой сайт действует от имени вошедшего пользователя
   await app.register(cors, {
-  origin: true,
-  methods: '*',
-  allowedHeaders: ['*']
-})
+    origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : false,
+    credentials: true
+  })
   
+  // OpenAPI-описание собирается из схем маршрутов, поэтому swagger регистрируется до них.
+  // nginx отдаёт документ как /openapi.json, а Scalar показывает его под /docs/
+  await app.register(swagger, {
+    openapi: {
+      openapi: '3.1.0',
+      info: { title: 'Бронирование аудиторий и устройств', version: '1.0.0' }
+    },
+    transformObject: (document) => 'openapiObject' in document ? namedSchemasToComponents(document.openapiObject) : document.swaggerObject
+  })
+  // Формат ошибок подключается первым, чтобы его хуки действовали на все маршруты
+  await app.register(problemsPlugin)
+  // Лимиты включаются отдельно на маршрутах через config.rateLimit
+  await app.register(rateLimit, {
+    global: false,
+    errorResponseBuilder: (req, context) => Object.assign(new Error('Слишком много попыток, повторите позже'), { statusCode: context.statusCode })
+  })
   await app.register(prismaPlugin)
-  app.get('/api/health', (req, res) => {
+  await app.register(authPlugin)
+  await app.register(eventsPlugin)
+  await app.register(schedulerPlugin)
+  await app.register(auditPlugin)
+  await app.register(notificationsPlugin)
+  await app.register(mailerPlugin)
+  await app.register(checkInPlugin)
+  // Импорт расписания: тело запроса — сам .ics-файл
+  app.addContentTypeParser('text/calendar', { parseAs: 'string' }, (req, body, done) => done(null, body))
+  // Массовый импорт каталога: тело — CSV-файл
+  app.addContentTypeParser('text/csv', { parseAs: 'string' }, (req, body, done) => done(null, body))
+  app.get('/api/health', { schema: { response: { 200: { content: { 'text/plain': { schema: T.String() } } } } } }, (req, res) => {
   res.status(200).send('ok');});
+  app.get('/openapi.json', { schema: { hide: true } }, async () => app.swagger())
+
+  // --- AUTH ---
+  // Подбор паролей и массовая регистрация: не больше 10 попыток в минуту с одного адреса
+  const authRateLimit = { rateLimit: { max: 10, timeWindow: '1 minute' } }
+  const publicUser = (u: SessionUser) => ({ id: u.id, email: u.email, name: u.name, role: u.role })
+
+  app.post('/api/auth/register', { config: authRateLimit, schema: { body: RegisterSchema, response: { 201: UserSchema, ...ProblemResponses } } }, async (req, reply) => {
+    const { email, name, password } = req.body
+    const exists = await app.prisma.user.findUnique({ where: { email } })
+    if (exists) {
+      return reply.code(409).send({ detail: 'Пользователь с таким email уже существует' })
+    }
+    // Первый зарегистрированный пользователь становится администратором, иначе некому выдать роли.
+    // Подсчёт и создание — в одной serializable-транзакции: из двух одновременных регистраций в пустую базу
+    // одна откатывается (P2034) и повторяется, уже видя первого пользователя.
+    const passwordHash = await hashPassword(password)
+    const register = () => app.prisma.$transaction(async (tx) => {
+      const isFirst = (await tx.user.count()) === 0
+      return tx.user.create({ data: { email, name: name ?? null, passwordHash, role: isFirst ? 'admin' : 'member' } })
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+    const user = await register().catch((err: unknown) => {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2034') return register()
+      throw err
+    })
+    await app.startSession(reply, user.id)
+    return reply.code(201).send(publicUser(user))
+  })
+
+  app.post('/api/auth/login', { config: authRateLimit, schema: { body: LoginSchema, response: { 200: UserSchema, ...ProblemResponses } } }, async (req, reply) => {
+    const { email, password } = req.body
+    const user = await app.prisma.user.findUnique({ where: { email } })
+    // Одинаковый ответ для неизвестного email и неверного пароля
+    if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      return reply.code(401).send({ detail: 'Неверный email или пароль' })
+    }
+    await app.startSession(reply, user.id)
+    return publicUser(user)
+  })
+
+  app.post('/api/auth/logout', { schema: { response: { 204: NoContentSchema, ...ProblemResponses } } }, async (req, reply) => {
+    await app.endSession(req, reply)
+    return reply.code(204).send()
+  })
+
+  app.get('/api/auth/me', {
+    preHandler: app.authenticate,
+    schema: { response: { 200: UserSchema, ...ProblemResponses } }
+  }, async (req) => req.user!)
+
+  // Секрет показывается один раз: в БД остаётся только хэш
+  app.post('/api/auth/calendar-token', {
+    preHandler: app.authenticate,
+    schema: { response: { 200: CalendarTokenSchema, ...ProblemResponses } }
+  }, async (req) => {
+    return { token: await app.issueCalendarToken(req.user!.id) }
+  })
+
+  // --- USERS ---
+  app.get('/api/users', {
+    preHandler: app.requireRole('admin'),
+    schema: { response: { 200: T.Array(UserSchema), ...ProblemResponses } }
+  }, async () => {
+    return app.prisma.user.findMany({
+      select: { id: true, email: true, name: true, role: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  })
+
+  app.put('/api/users/:id/role', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, body: UpdateUserRoleSchema, response: { 200: UserSchema, ...ProblemResponses } }
+  }, async (req) => {
+    const { id } = req.params
+    const updated = await app.prisma.user.update({ where: { id }, data: { role: req.body.role } })
+    return publicUser(updated)
+  })
+
+  // Неявки по пользователям: сколько броней с обязательной отметкой пропущено и какая это доля.
+  // Учитываются только завершённые исходы — отмеченные и снятые брони.
+  const NO_SHOW_HISTORY_MS = 90 * 24 * 60 * 60 * 1000
+  app.get('/api/users/no-shows', {
+    preHandler: app.requireRole('admin', 'manager'),
+    schema: { querystring: NoShowStatsQuerySchema, response: { 200: T.Array(NoShowStatsSchema), ...ProblemResponses } }
+  }, async (req) => {
+    const from = req.query.from ? new Date(req.query.from) : new Date(Date.now() - NO_SHOW_HISTORY_MS)
+    const groups = await app.prisma.booking.groupBy({
+      by: ['userId', 'status'],
+      where: {
+        userId: { not: null },
+        checkInRequired: true,
+        status: { in: ['checked_in', 'no_show'] },
+        startTime: { gte: from }
+      },
+      _count: { _all: true }
+    })
+    const users = await app.prisma.user.findMany({
+      where: { id: { in: [...new Set(groups.map(g => g.userId!))] } },
+      select: { id: true, email: true, name: true }
+    })
+    return users
+      .map(user => {
+        const count = (status: string) =>
+          groups.find(g => g.userId === user.id && g.status === status)?._count._all ?? 0
+        const checkedIn = count('checked_in')
+        const noShows = count('no_show')
+        return { user, checkedIn, noShows, rate: noShows / (checkedIn + noShows) }
+      })
+      .sort((a, b) => b.noShows - a.noShows || b.rate - a.rate)
+  })
+
+  // --- CSV ---
+  const sendCsv = (reply: FastifyReply, filename: string, csv: string) => reply
+    .header('Content-Type', 'text/csv; charset=utf-8')
+    .header('Content-Disposition', `attachment; filename="${filename}"`)
+    .send(csv)
+
+  // Строку CSV проверяем той же схемой, что и тело POST; ошибки — по полям
+  const validateRow = <S extends TSchema>(schema: S, raw: Record<string, unknown>) => {
+    const value = Value.Convert(schema, raw)
+    if (Value.Check(schema, value)) return { value: value as Static<S>, errors: [] as string[] }
+    const errors = Value.Errors(schema, value).map(e => `${e.instancePath.replace(/^\//, '') || 'row'}: ${e.message}`)
+    return { value: null, errors }
+  }
+
+  // Отчёт импорта: номер строки считается с заголовком, как в редакторе таблиц
+  type RowError = { row: number; errors: string[] }
+  const csvLine = (index: number) => index + 2
+
+  // Удаление, которое отклонил внешний ключ (P2003): на запись успели сослаться после проверки
+  const unlessReferenced = async <T>(write: Promise<T>): Promise<T | null> => {
+    try {
+      return await write
+    } catch (err) {
+      if ((err as { code?: unknown }).code === 'P2003') return null
+      throw err
+    }
+  }
+
   // --- DEVICES ---
-  app.get('/api/devices', async () => app.prisma.device.findMany())
+  app.get('/api/devices', { schema: { querystring: DevicesQuerySchema, response: { 200: DevicePageSchema, ...ProblemResponses } } }, async (req) => {
+    const { q, archived, order = 'asc' } = req.query
+    const { page, pageSize, skip, take } = pageArgs(req.query)
+    const where = { archivedAt: archived ? { not: null } : null, ...(q ? { name: containsText(q) } : {}) }
+    const [total, items] = await app.prisma.$transaction([
+      app.prisma.device.count({ where }),
+      app.prisma.device.findMany({ where, orderBy: { name: order }, skip, take })
+    ])
+    return { items, page, pageSize, total }
+  })
   
-  app.post('/api/devices', { schema: { body: CreateDeviceSchema } }, async (req, reply) => {
+  app.get('/api/devices.csv', { schema: { response: { 200: CsvFileSchema, ...ProblemResponses } } }, async (req, reply) => {
+    const devices = await app.prisma.device.findMany({ where: { archivedAt: null }, orderBy: { name: 'asc' } })
+    return sendCsv(reply, 'devices.csv', toCsv(['name'], devices.map(d => [d.name])))
+  })
+
+  // Импорт CSV с колонкой name: существующие по названию устройства не дублируются,
+  // а найденные в архиве возвращаются в работу
+  app.post('/api/devices/import', {
+    preHandler: app.requireRole('admin'),
+    schema: { consumes: ['text/csv'], body: T.String(), response: { 200: CsvImportReportSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { columns, records } = csvRecords(req.body)
+    if (!columns.includes('name')) {
+      return reply.code(400).send({ detail: 'В файле нет колонки name' })
+    }
+
+    const errors: RowError[] = []
+    const names = new Set<string>()
+    records.forEach((record, i) => {
+      const { value, errors: rowErrors } = validateRow(CreateDeviceSchema, { name: record.name })
+      if (value) names.add(value.name)
+      else errors.push({ row: csvLine(i), errors: rowErrors })
+    })
+
+    const existing = await app.prisma.device.findMany({ where: { name: { in: [...names] } } })
+    const toCreate = [...names].filter(name => !existing.some(d => d.name === name))
+    const toRestore = existing.filter(d => d.archivedAt)
+    const [created, restored] = await app.prisma.$transaction([
+      app.prisma.device.createManyAndReturn({ data: toCreate.map(name => ({ name })) }),
+      app.prisma.device.updateManyAndReturn({ where: { id: { in: toRestore.map(d => d.id) } }, data: { archivedAt: null } })
+    ])
+    if (created.length + restored.length > 0) app.broadcast({ entity: 'device', action: 'bulk' })
+    await app.audit(req.user, [
+      ...created.map((d): AuditChange => ({ entity: 'device', entityId: d.id, action: 'created', after: d })),
+      ...restored.map((d): AuditChange => ({ entity: 'device', entityId: d.id, action: 'updated', before: toRestore.find(x => x.id === d.id) ?? null, after: d }))
+    ])
+    return { created: created.length, updated: restored.length, unchanged: names.size - created.length - restored.length, errors }
+  })
+
+  app.post('/api/devices', {
+    preHandler: app.requireRole('admin'),
+    schema: { body: CreateDeviceSchema, response: { 201: DeviceSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
     const device = await app.prisma.device.create({ data: req.body })
+    app.broadcast({ entity: 'device', action: 'created', id: device.id, data: device })
+    await app.audit(req.user, [{ entity: 'device', entityId: device.id, action: 'created', after: device }])
     return reply.code(201).send(device)
   })
 
-  app.put('/api/devices/:id', { schema: { body: UpdateDeviceSchema } }, async (req, reply) => {
-    const { id } = req.params as { id: string }
+  app.put('/api/devices/:id', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, body: UpdateDeviceSchema, response: { 200: DeviceSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const before = await app.prisma.device.findUnique({ where: { id } })
     const updated = await app.prisma.device.update({ where: { id }, data: req.body })
+    app.broadcast({ entity: 'device', action: 'updated', id, data: updated })
+    await app.audit(req.user, [{ entity: 'device', entityId: id, action: 'updated', before, after: updated }])
     return updated
   })
 
-  app.delete('/api/devices/:id', async (req, reply) => {
-    const { id } = req.params as { id: string }
-    await app.prisma.device.delete({ where: { id } })
+  // Занятые и свободные интервалы устройства в окне [from, to)
+  app.get('/api/devices/:id/availability', {
+    schema: { params: IdParamsSchema, querystring: AvailabilityQuerySchema, response: { 200: DeviceAvailabilitySchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const from = new Date(req.query.from)
+    const to = new Date(req.query.to)
+    if (from >= to) {
+      return reply.code(400).send({ detail: 'Начало окна должно быть раньше его окончания' })
+    }
+
+    const device = await app.prisma.device.findUnique({ where: { id } })
+    if (!device) {
+      return reply.code(404).send({ detail: 'Устройство не найдено' })
+    }
+
+    // Обслуживание устройства тоже делает его недоступным
+    const [bookings, maintenance] = await Promise.all([
+      findConflicts(app.prisma, { deviceId: id }, { start: from, end: to }),
+      findMaintenanceConflicts(app.prisma, { deviceId: id }, { start: from, end: to })
+    ])
+    const { busy, free } = splitAvailability(
+      { start: from, end: to },
+      [...bookings, ...maintenance].map(b => ({ start: b.startTime, end: b.endTime }))
+    )
+    return { deviceId: id, from, to, busy, free }
+  })
+
+  // Все устройства, занятые в окне [from, to), одним запросом — для формы бронирования
+  app.get('/api/devices/busy', {
+    schema: { querystring: AvailabilityQuerySchema, response: { 200: BusyDevicesSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const from = new Date(req.query.from)
+    const to = new Date(req.query.to)
+    if (from >= to) {
+      return reply.code(400).send({ detail: 'Начало окна должно быть раньше его окончания' })
+    }
+
+    const window = { startTime: { lt: to }, endTime: { gt: from }, deviceId: { not: null } }
+    const [bookings, maintenance] = await Promise.all([
+      app.prisma.booking.findMany({ where: { ...window, status: { in: BLOCKING_STATUSES } }, select: { deviceId: true }, distinct: ['deviceId'] }),
+      app.prisma.maintenance.findMany({ where: window, select: { deviceId: true }, distinct: ['deviceId'] })
+    ])
+    const deviceIds = [...new Set([...bookings, ...maintenance].map(b => b.deviceId!))]
+    return { from, to, deviceIds }
+  })
+
+  // Удаляется только устройство без броней; иначе его можно отправить в архив
+  app.delete('/api/devices/:id', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const bookings = await app.prisma.booking.count({ where: { deviceId: id } })
+    if (bookings > 0) {
+      return reply.code(409).send({ detail: `У устройства есть бронирования (${bookings}): удалить его нельзя, только отправить в архив`, bookings })
+    }
+    const deleted = await unlessReferenced(app.prisma.device.delete({ where: { id } }))
+    if (!deleted) {
+      return reply.code(409).send({ detail: 'Устройство только что забронировали: удалить его нельзя, только отправить в архив' })
+    }
+    app.broadcast({ entity: 'device', action: 'deleted', id })
+    await app.audit(req.user, [{ entity: 'device', entityId: id, action: 'deleted', before: deleted }])
     return reply.code(204).send()
   })
 
-  // --- AUDITORIES ---
-  app.get('/api/auditories', async () => app.prisma.auditory.findMany())
+  // --- EQUIPMENT ---
+  app.get('/api/equipment', { schema: { response: { 200: T.Array(EquipmentSchema), ...ProblemResponses } } }, async () => app.prisma.equipment.findMany({ orderBy: { label: 'asc' } }))
 
-  app.post('/api/auditories', { schema: { body: CreateAuditorySchema } }, async (req, reply) => {
-    const auditory = await app.prisma.auditory.create({ data: req.body })
-    return reply.code(201).send(auditory)
+  app.post('/api/equipment', {
+    preHandler: app.requireRole('admin'),
+    schema: { body: CreateEquipmentSchema, response: { 201: EquipmentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const exists = await app.prisma.equipment.findUnique({ where: { code: req.body.code } })
+    if (exists) {
+      return reply.code(409).send({ detail: `Оборудование с кодом ${req.body.code} уже существует` })
+    }
+    const equipment = await app.prisma.equipment.create({ data: req.body })
+    return reply.code(201).send(equipment)
   })
 
-  app.put('/api/auditories/:id', { schema: { body: UpdateAuditorySchema } }, async (req, reply) => {
-    const { id } = req.params as { id: string }
-    const updated = await app.prisma.auditory.update({ where: { id }, data: req.body })
+  app.put('/api/equipment/:id', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, body: UpdateEquipmentSchema, response: { 200: EquipmentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const { code, label } = req.body
+    if (code) {
+      const taken = await app.prisma.equipment.findFirst({ where: { code, id: { not: id } } })
+      if (taken) {
+        return reply.code(409).send({ detail: `Оборудование с кодом ${code} уже существует` })
+      }
+    }
+    const updated = await app.prisma.equipment.update({
+      where: { id },
+      data: { ...(code ? { code } : {}), ...(label ? { label } : {}) }
+    })
     return updated
   })
 
-  app.delete('/api/auditories/:id', async (req, reply) => {
-    const { id } = req.params as { id: string }
-    await app.prisma.auditory.delete({ where: { id } })
+  app.delete('/api/equipment/:id', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    await app.prisma.equipment.delete({ where: { id } })
     return reply.code(204).send()
   })
 
-  // --- BOOKINGS ---
-  app.get('/api/bookings', async () => {
-    return app.prisma.booking.findMany({ 
+  // --- AUDITORIES ---
+  // Оборудование аудитории в API задаётся и отдаётся списком кодов из справочника
+  const withEquipmentCodes = <A extends { equipment: { code: string }[] }>(a: A) => ({
+    ...a,
+    equipment: a.equipment.map(e => e.code)
+  })
+  const unknownEquipment = async (codes: string[]) => {
+    const known = await app.prisma.equipment.findMany({ where: { code: { in: codes } }, select: { code: true } })
+    return codes.filter(c => !known.some(k => k.code === c))
+  }
+
+  app.get('/api/auditories', { schema: { querystring: AuditoriesQuerySchema, response: { 200: AuditoryPageSchema, ...ProblemResponses } } }, async (req) => {
+    const { q, minCapacity, archived, sort = 'name', order = 'asc' } = req.query
+    const { page, pageSize, skip, take } = pageArgs(req.query)
+    const where = {
+      archivedAt: archived ? { not: null } : null,
+      ...(q ? { OR: [{ name: containsText(q) }, { code: containsText(q) }] } : {}),
+      ...(minCapacity ? { capacity: { gte: minCapacity } } : {})
+    }
+    const [total, auditories] = await app.prisma.$transaction([
+      app.prisma.auditory.count({ where }),
+      app.prisma.auditory.findMany({ where, include: { equipment: true }, orderBy: { [sort]: order }, skip, take })
+    ])
+    return { items: auditories.map(withEquipmentCodes), page, pageSize, total }
+  })
+
+  // Аудитории, свободные на всё окно: без пересекающихся броней и обслуживания.
+  // Лучшее совпадение — самая маленькая аудитория, в которую помещаются все участники.
+  app.get('/api/auditories/available', {
+    schema: { querystring: AvailableAuditoriesQuerySchema, response: { 200: T.Array(AuditorySchema), ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { minCapacity, equipment } = req.query
+    const from = new Date(req.query.from)
+    const to = new Date(req.query.to)
+    if (from >= to) {
+      return reply.code(400).send({ detail: 'Время начала должно быть раньше времени окончания' })
+    }
+    const codes = equipment ? equipment.split(',').map(c => c.trim()).filter(Boolean) : []
+    const unknown = await unknownEquipment(codes)
+    if (unknown.length > 0) {
+      return reply.code(400).send({ detail: `Неизвестное оборудование: ${unknown.join(', ')}` })
+    }
+
+    const overlapping = { startTime: { lt: to }, endTime: { gt: from } }
+    const auditories = await app.prisma.auditory.findMany({
+      where: {
+        archivedAt: null,
+        ...(minCapacity ? { capacity: { gte: minCapacity } } : {}),
+        AND: codes.map(code => ({ equipment: { some: { code } } })),
+        bookings: { none: { ...overlapping, status: { in: BLOCKING_STATUSES } } },
+        maintenance: { none: overlapping }
+      },
+      include: { equipment: true },
+      orderBy: [{ capacity: 'asc' }, { name: 'asc' }]
+    })
+    return auditories.map(withEquipmentCodes)
+  })
+
+  const codeTaken = async (code: string, exceptId?: string) => {
+    const found = await app.prisma.auditory.findFirst({
+      where: { code, ...(exceptId ? { id: { not: exceptId } } : {}) }
+    })
+    return !!found
+  }
+
+  app.get('/api/auditories.csv', { schema: { response: { 200: CsvFileSchema, ...ProblemResponses } } }, async (req, reply) => {
+    const auditories = await app.prisma.auditory.findMany({
+      where: { archivedAt: null },
+      include: { equipment: true },
+      orderBy: { name: 'asc' }
+    })
+    const rows = auditories.map(a => [a.name, a.code, a.capacity, a.equipment.map(e => e.code).join(',')])
+    return sendCsv(reply, 'auditories.csv', toCsv(['name', 'code', 'capacity', 'equipment'], rows))
+  })
+
+  // Импорт CSV с колонками name, code, capacity, equipment (коды через запятую).
+  // Аудитория с тем же названием обновляется, иначе создаётся; строки с ошибками пропускаются.
+  app.post('/api/auditories/import', {
+    preHandler: app.requireRole('admin'),
+    schema: { consumes: ['text/csv'], body: T.String(), response: { 200: CsvImportReportSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { columns, records } = csvRecords(req.body)
+    const missing = ['name', 'capacity'].filter(c => !columns.includes(c))
+    if (missing.length > 0) {
+      return reply.code(400).send({ detail: `В файле нет колонок: ${missing.join(', ')}` })
+    }
+
+    const [existing, equipment] = await Promise.all([
+      app.prisma.auditory.findMany({ include: { equipment: true } }),
+      app.prisma.equipment.findMany({ select: { code: true } })
+    ])
+    const errors: RowError[] = []
+    const rows = new Map<string, Static<typeof CreateAuditorySchema>>()
+    records.forEach((record, i) => {
+      const raw = {
+        name: record.name,
+        capacity: record.capacity,
+        ...(record.code ? { code: record.code } : {}),
+        ...(record.equipment ? { equipment: record.equipment.split(/[,|]/).map(c => c.trim()).filter(Boolean) } : {})
+      }
+      const { value, errors: rowErrors } = validateRow(CreateAuditorySchema, raw)
+      if (value) {
+        const unknown = (value.equipment ?? []).filter(c => !equipment.some(e => e.code === c))
+        if (unknown.length > 0) rowErrors.push(`equipment: неизвестное оборудование ${unknown.join(', ')}`)
+        // Номер аудитории уникален и среди строк файла, и среди аудиторий с другими названиями
+        const codeOwner = value.code && ([...rows.values()].find(r => r.code === value.code)?.name
+          ?? existing.find(a => a.code === value.code)?.name)
+        if (codeOwner && codeOwner !== value.name) rowErrors.push(`code: номер ${value.code} уже занят аудиторией ${codeOwner}`)
+      }
+      if (value && rowErrors.length === 0) rows.set(value.name, value)
+      else errors.push({ row: csvLine(i), errors: rowErrors })
+    })
+
+    let created = 0
+    let updated = 0
+    const ops = []
+    // Прежнее состояние каждой изменяемой аудитории, по порядку операций; null — аудитория создаётся
+    const previous: (typeof existing[number] | null)[] = []
+    for (const { equipment: codes = [], ...data } of rows.values()) {
+      const current = existing.find(a => a.name === data.name)
+      if (!current) {
+        created++
+        previous.push(null)
+        ops.push(app.prisma.auditory.create({
+          data: { ...data, equipment: { connect: codes.map(code => ({ code })) } },
+          include: { equipment: true }
+        }))
+        continue
+      }
+      const same = current.code === (data.code ?? current.code) && current.capacity === data.capacity
+        && current.equipment.length === codes.length && current.equipment.every(e => codes.includes(e.code))
+      if (same && !current.archivedAt) continue
+      updated++
+      previous.push(current)
+      // Аудитория из архива, снова указанная в файле, возвращается в работу — как и устройства
+      ops.push(app.prisma.auditory.update({
+        where: { id: current.id },
+        data: { ...data, archivedAt: null, equipment: { set: codes.map(code => ({ code })) } },
+        include: { equipment: true }
+      }))
+    }
+    const written = await app.prisma.$transaction(ops)
+    if (ops.length > 0) app.broadcast({ entity: 'auditory', action: 'bulk' })
+    await app.audit(req.user, written.map((a, i) => {
+      const before = previous[i]
+      return before
+        ? { entity: 'auditory', entityId: a.id, action: 'updated', before: withEquipmentCodes(before), after: withEquipmentCodes(a) }
+        : { entity: 'auditory', entityId: a.id, action: 'created', after: withEquipmentCodes(a) }
+    }))
+    return { created, updated, unchanged: rows.size - created - updated, errors }
+  })
+
+  app.post('/api/auditories', {
+    preHandler: app.requireRole('admin'),
+    schema: { body: CreateAuditorySchema, response: { 201: AuditorySchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { equipment = [], ...data } = req.body
+    if (data.code && await codeTaken(data.code)) {
+      return reply.code(409).send({ detail: `Аудитория с номером ${data.code} уже существует` })
+    }
+    const unknown = await unknownEquipment(equipment)
+    if (unknown.length > 0) {
+      return reply.code(400).send({ detail: `Неизвестное оборудование: ${unknown.join(', ')}` })
+    }
+    const auditory = await app.prisma.auditory.create({
+      data: { ...data, equipment: { connect: equipment.map(code => ({ code })) } },
+      include: { equipment: true }
+    })
+    app.broadcast({ entity: 'auditory', action: 'created', id: auditory.id, data: withEquipmentCodes(auditory) })
+    await app.audit(req.user, [{ entity: 'auditory', entityId: auditory.id, action: 'created', after: withEquipmentCodes(auditory) }])
+    return reply.code(201).send(withEquipmentCodes(auditory))
+  })
+
+  app.put('/api/auditories/:id', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, body: UpdateAuditorySchema, response: { 200: AuditorySchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const { equipment, ...data } = req.body
+    if (data.code && await codeTaken(data.code, id)) {
+      return reply.code(409).send({ detail: `Аудитория с номером ${data.code} уже существует` })
+    }
+    if (equipment) {
+      const unknown = await unknownEquipment(equipment)
+      if (unknown.length > 0) {
+        return reply.code(400).send({ detail: `Неизвестное оборудование: ${unknown.join(', ')}` })
+      }
+    }
+    const before = await app.prisma.auditory.findUnique({ where: { id }, include: { equipment: true } })
+    const updated = await app.prisma.auditory.update({
+      where: { id },
+      data: { ...data, ...(equipment ? { equipment: { set: equipment.map(code => ({ code })) } } : {}) },
+      include: { equipment: true }
+    })
+    app.broadcast({ entity: 'auditory', action: 'updated', id, data: withEquipmentCodes(updated) })
+    await app.audit(req.user, [{
+      entity: 'auditory',
+      entityId: id,
+      action: 'updated',
+      before: before && withEquipmentCodes(before),
+      after: withEquipmentCodes(updated)
+    }])
+    return withEquipmentCodes(updated)
+  })
+
+  // Удаляется только аудитория без броней; иначе её можно отправить в архив
+  app.delete('/api/auditories/:id', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const bookings = await app.prisma.booking.count({ where: { auditoryId: id } })
+    if (bookings > 0) {
+      return reply.code(409).send({ detail: `У аудитории есть бронирования (${bookings}): удалить её нельзя, только отправить в архив`, bookings })
+    }
+    const deleted = await unlessReferenced(app.prisma.auditory.delete({ where: { id }, include: { equipment: true } }))
+    if (!deleted) {
+      return reply.code(409).send({ detail: 'Аудиторию только что забронировали: удалить её нельзя, только отправить в архив' })
+    }
+    app.broadcast({ entity: 'auditory', action: 'deleted', id })
+    await app.audit(req.user, [{ entity: 'auditory', entityId: id, action: 'deleted', before: withEquipmentCodes(deleted) }])
+    return reply.code(204).send()
+  })
+
+  // --- MAINTENANCE ---
+  app.get('/api/maintenance', {
+    schema: { querystring: MaintenanceQuerySchema, response: { 200: T.Array(MaintenanceSchema), ...ProblemResponses } }
+  }, async (req) => {
+    const { auditoryId, deviceId, from, to } = req.query
+    return app.prisma.maintenance.findMany({
+      where: {
+        ...(auditoryId ? { auditoryId } : {}),
+        ...(deviceId ? { deviceId } : {}),
+        ...(to ? { startTime: { lt: new Date(to) } } : {}),
+        endTime: { gt: from ? new Date(from) : new Date() }
+      },
       include: { device: true, auditory: true },
-      orderBy: { startTime: 'desc' }
+      orderBy: { startTime: 'asc' }
+    })
+  })
+
+  app.post('/api/maintenance', {
+    preHandler: app.requireRole('admin'),
+    schema: { body: CreateMaintenanceSchema, response: { 201: CreatedMaintenanceSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { auditoryId, deviceId, startTime, endTime, reason } = req.body
+    if (!auditoryId === !deviceId) {
+      return reply.code(400).send({ detail: 'Укажите либо аудиторию, либо устройство' })
+    }
+    const startAt = new Date(startTime)
+    const endAt = new Date(endTime)
+    if (startAt >= endAt) {
+      return reply.code(400).send({ detail: 'Время начала должно быть раньше времени окончания' })
+    }
+
+    const maintenance = await app.prisma.maintenance.create({
+      data: { auditoryId: auditoryId ?? null, deviceId: deviceId ?? null, startTime: startAt, endTime: endAt, reason },
+      include: { device: true, auditory: true }
+    })
+    // Брони, попавшие в окно, не отменяются автоматически — отдаём их, чтобы администратор решил сам
+    const affected = await findConflicts(
+      app.prisma,
+      { ...(auditoryId ? { auditoryId } : {}), ...(deviceId ? { deviceId } : {}) },
+      { start: startAt, end: endAt }
+    )
+    app.broadcast({ entity: 'maintenance', action: 'created', id: maintenance.id, data: maintenance })
+    return reply.code(201).send({ ...maintenance, affectedBookings: affected })
+  })
+
+  app.delete('/api/maintenance/:id', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const maintenance = await app.prisma.maintenance.delete({ where: { id } })
+    app.broadcast({ entity: 'maintenance', action: 'deleted', id })
+    if (maintenance.auditoryId) {
+      await app.notifyRoomsFreed([{ ...maintenance, auditoryId: maintenance.auditoryId }])
+    }
+    return reply.code(204).send()
+  })
+
+  // --- ROOMS ---
+  // Представление аудиторий для каталога: номер, оборудование и текущий статус считаются на сервере
+  app.get('/api/rooms', { schema: { querystring: RoomsQuerySchema, response: { 200: RoomPageSchema, ...ProblemResponses } } }, async (req) => {
+    const { page, pageSize, skip, take } = pageArgs(req.query, 20)
+    const now = new Date()
+
+    const where = { archivedAt: null }
+    const [total, auditories] = await app.prisma.$transaction([
+      app.prisma.auditory.count({ where }),
+      app.prisma.auditory.findMany({
+        where,
+        include: {
+          equipment: true,
+          // Достаточно знать, есть ли бронь или обслуживание, идущие прямо сейчас
+          bookings: {
+            where: { status: { in: BLOCKING_STATUSES }, startTime: { lte: now }, endTime: { gt: now } },
+            select: { id: true },
+            take: 1
+          },
+          maintenance: { where: { startTime: { lte: now }, endTime: { gt: now } }, select: { id: true }, take: 1 }
+        },
+        orderBy: [{ code: 'asc' }, { name: 'asc' }],
+        skip,
+        take
+      })
+    ])
+
+    const items = auditories.map(a => ({
+      id: a.id,
+      code: a.code ?? a.name,
+      name: a.name,
+      capacity: a.capacity,
+      equipment: a.equipment.map(e => e.code),
+      status: a.maintenance.length > 0 ? 'maintenance' as const
+        : a.bookings.length > 0 ? 'booked' as const
+        : 'available' as const
+    }))
+    return { items, page, pageSize, total }
+  })
+
+  // --- BOOKINGS ---
+  // Владелец брони отдаётся без служебных полей (роль, хэш пароля)
+  const bookingInclude = {
+    device: true,
+    auditory: true,
+    user: { select: { id: true, name: true, email: true } }
+  } as const
+
+  // email владельца нужен письмам, но наружу он уходит только менеджерам, администраторам и самому владельцу:
+  // списки броней открыты гостям, а канал /api/events — всем подключившимся (для него viewer = null)
+  type OwnedBooking = { user: { id: string; name: string | null; email: string } | null }
+  const forViewer = <B extends OwnedBooking>(viewer: SessionUser | null, booking: B) => {
+    const { user } = booking
+    if (!user || (viewer && (canApproveBookings(viewer) || viewer.id === user.id))) return booking
+    return { ...booking, user: { id: user.id, name: user.name } }
+  }
+
+  // Занятие серии нельзя создать или перенести, если оно пересекается с бронью или обслуживанием
+  type OccurrenceCheck = Awaited<ReturnType<typeof findConflictsForEach>>[number]
+  const isBlocked = (o: OccurrenceCheck) => o.conflicts.length > 0 || o.maintenance.length > 0
+  const occurrenceReport = (o: OccurrenceCheck) => ({
+    startTime: o.start,
+    endTime: o.end,
+    conflicts: o.conflicts,
+    maintenance: o.maintenance
+  })
+
+  // Проверка пересечений и запись — разные запросы, и между ними интервал может занять параллельный запрос.
+  // Тогда запись отклоняет ограничение-исключение БД: unlessOverlap возвращает null, а клиент получает
+  // тот же 409, что и при обычной проверке, — с пересекающимися бронями, найденными заново.
+  const unlessOverlap = async <T>(write: Promise<T>): Promise<T | null> => {
+    try {
+      return await write
+    } catch (err) {
+      if (isOverlapViolation(err)) return null
+      throw err
+    }
+  }
+  const overlapConflict = async (reply: FastifyReply, resources: BookingResources, interval: Interval, excludeId?: string) => {
+    const conflicts = await findConflicts(app.prisma, resources, interval, excludeId)
+    return reply.code(409).send({ detail: conflictDetail(conflicts, resources), conflicts })
+  }
+  const seriesOverlapConflict = async (reply: FastifyReply, resources: BookingResources, intervals: Interval[], excludeIds: string[] = []) => {
+    const report = await findConflictsForEach(app.prisma, resources, intervals, excludeIds)
+    return reply.code(409).send({
+      detail: 'Часть занятий серии пересекается с существующими бронями или обслуживанием',
+      occurrences: report.map(occurrenceReport)
+    })
+  }
+
+  // Бронировать архивные устройства и аудитории и переносить в них брони нельзя
+  const archivedDetail = async (auditoryId: string | null, deviceId: string | null) => {
+    const [auditory, device] = await Promise.all([
+      auditoryId ? app.prisma.auditory.findUnique({ where: { id: auditoryId } }) : null,
+      deviceId ? app.prisma.device.findUnique({ where: { id: deviceId } }) : null
+    ])
+    if (auditory?.archivedAt) return `Аудитория «${auditory.name}» в архиве: бронировать её нельзя`
+    if (device?.archivedAt) return `Устройство «${device.name}» в архиве: бронировать его нельзя`
+    return null
+  }
+
+  // Перенесённой брони напоминание отправляется заново, а отметку о приходе нужно сделать в новое время.
+  // Заявка, ожидающая подтверждения, при переносе так и остаётся заявкой.
+  const rescheduled = (status: BookingStatus) => ({
+    reminderSentAt: null,
+    checkedInAt: null,
+    ...(status === 'checked_in' || status === 'no_show' ? { status: 'booked' as const } : {})
+  })
+
+  // Записи журнала для нескольких броней сразу; прежнее состояние ищется по id
+  type BookingRow = { id: string }
+  const bookingsCreated = (bookings: BookingRow[]): AuditChange[] =>
+    bookings.map(b => ({ entity: 'booking', entityId: b.id, action: 'created', after: b }))
+  const bookingsUpdated = (before: BookingRow[], after: BookingRow[]): AuditChange[] =>
+    after.map(b => ({ entity: 'booking', entityId: b.id, action: 'updated', before: before.find(x => x.id === b.id) ?? null, after: b }))
+  const bookingsDeleted = (bookings: BookingRow[]): AuditChange[] =>
+    bookings.map(b => ({ entity: 'booking', entityId: b.id, action: 'deleted', before: b }))
+
+  // Кто изменил чужую бронь — для текста уведомления владельцу («изменено администратором (Иван)»)
+  const actorLabel = (user: SessionUser) =>
+    `${user.role === 'admin' ? 'администратором' : 'менеджером'} (${user.name || user.email})`
+
+  // Фильтры журнала: общие для списка и выгрузки в CSV
+  const bookingsWhere = (query: Static<typeof BookingsQuerySchema>, user: SessionUser | null): Prisma.BookingWhereInput => {
+    const { mine, q, auditoryId, deviceId, userId, status, from, to } = query
+    return {
+      ...(mine ? { userId: user!.id } : userId ? { userId } : {}),
+      ...(status ? { status } : {}),
+      ...(auditoryId ? { auditoryId } : {}),
+      ...(deviceId ? { deviceId } : {}),
+      ...(from ? { endTime: { gt: new Date(from) } } : {}),
+      ...(to ? { startTime: { lt: new Date(to) } } : {}),
+      ...(q ? {
+        OR: [
+          { auditory: { name: containsText(q) } },
+          { device: { name: containsText(q) } },
+          { user: { name: containsText(q) } }
+        ]
+      } : {})
+    }
+  }
+
+  app.get('/api/bookings', { schema: { querystring: BookingsQuerySchema, response: { 200: BookingPageSchema, ...ProblemResponses } } }, async (req, reply) => {
+    const { sort = 'startTime', order = 'desc' } = req.query
+    if (req.query.mine && !req.user) {
+      return reply.code(401).send({ detail: 'Требуется вход в систему' })
+    }
+    const { page, pageSize, skip, take } = pageArgs(req.query)
+    const where = bookingsWhere(req.query, req.user)
+    const [total, items] = await app.prisma.$transaction([
+      app.prisma.booking.count({ where }),
+      app.prisma.booking.findMany({ where, include: bookingInclude, orderBy: { [sort]: order }, skip, take })
+    ])
+    return { items: items.map(b => forViewer(req.user, b)), page, pageSize, total }
+  })
+
+  // Журнал с теми же фильтрами, но целиком, без постраничного вывода
+  app.get('/api/bookings.csv', { schema: { querystring: BookingsQuerySchema, response: { 200: CsvFileSchema, ...ProblemResponses } } }, async (req, reply) => {
+    const { sort = 'startTime', order = 'desc' } = req.query
+    if (req.query.mine && !req.user) {
+      return reply.code(401).send({ detail: 'Требуется вход в систему' })
+    }
+    const bookings = await app.prisma.booking.findMany({
+      where: bookingsWhere(req.query, req.user),
+      include: bookingInclude,
+      orderBy: { [sort]: order }
     })
+    const rows = bookings.map(b => forViewer(req.user, b)).map(b => [
+      b.auditory.name, b.auditory.code, b.device?.name, b.user?.name || b.user?.email, b.startTime, b.endTime, b.seriesId, b.status
+    ])
+    return sendCsv(reply, 'bookings.csv', toCsv(['auditory', 'code', 'device', 'user', 'startTime', 'endTime', 'seriesId', 'status'], rows))
   })
 
-  app.post('/api/bookings', { schema: { body: CreateBookingSchema } }, async (req, reply) => {
-    const { deviceId, auditoryId, endTime } = req.body
+  // Все брони, пересекающиеся с окном, без постраничного вывода — для таймлайна.
+  // Окно ограничено, чтобы один запрос не выгружал всю таблицу.
+  const MAX_RANGE_MS = 31 * 24 * 60 * 60 * 1000
+  app.get('/api/bookings/range', {
+    schema: { querystring: AvailabilityQuerySchema, response: { 200: T.Array(BookingSchema), ...ProblemResponses } }
+  }, async (req, reply) => {
+    const from = new Date(req.query.from)
+    const to = new Date(req.query.to)
+    if (from >= to) {
+      return reply.code(400).send({ detail: 'Время начала должно быть раньше времени окончания' })
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_MS) {
+      return reply.code(400).send({ detail: 'Окно не может быть длиннее 31 дня' })
+    }
+    const bookings = await app.prisma.booking.findMany({
+      where: { status: { not: 'rejected' }, startTime: { lt: to }, endTime: { gt: from } },
+      include: bookingInclude,
+      orderBy: { startTime: 'asc' }
+    })
+    return bookings.map(b => forViewer(req.user, b))
+  })
+
+  // Начало брони не может быть в прошлом. Допуск покрывает время, пока пользователь заполнял форму,
+  // и расхождение часов клиента и сервера.
+  const PAST_START_TOLERANCE_MS = 5 * 60 * 1000
+  const startsInPast = (start: Date, now: Date) => start.getTime() < now.getTime() - PAST_START_TOLERANCE_MS
+
+  app.post('/api/bookings', {
+    preHandler: app.authenticate,
+    schema: { body: CreateBookingSchema, response: { 201: T.Union([BookingSchema, CreatedSeriesSchema]), ...ConflictResponses } }
+  }, async (req, reply) => {
+    const { deviceId, auditoryId, startTime, endTime, recurrence, skipConflicts } = req.body
     const now = new Date()
+    const startAt = startTime ? new Date(startTime) : now
     const endAt = new Date(endTime)
 
     if (endAt <= now) {
       return reply.code(400).send({ detail: 'Время окончания должно быть в будущем' })
     }
+    if (startAt >= endAt) {
+      return reply.code(400).send({ detail: 'Время начала должно быть раньше времени окончания' })
+    }
+    if (startsInPast(startAt, now)) {
+      return reply.code(400).send({ detail: 'Время начала не может быть в прошлом' })
+    }
+    const auditory = await app.prisma.auditory.findUnique({ where: { id: auditoryId } })
+    if (!auditory) {
+      return reply.code(404).send({ detail: 'Аудитория не найдена' })
+    }
+    const archived = await archivedDetail(auditoryId, deviceId ?? null)
+    if (archived) {
+      return reply.code(409).send({ detail: archived })
+    }
+    // Заявка в аудиторию с подтверждением не занимает её, пока её не одобрят
+    const status = auditory.requiresApproval && !canApproveBookings(req.user!) ? 'pending' : 'booked'
 
-    // Валидация: не занята ли эта аудитория кем-то еще прямо сейчас
-    const activeBooking = await app.prisma.booking.findFirst({
-      where: {
-        auditoryId,
-        endTime: { gt: now }
+    if (recurrence) {
+      if (!recurrence.until && !recurrence.count) {
+        return reply.code(400).send({ detail: 'Для повторения укажите дату окончания (until) или число повторений (count)' })
+      }
+      const rule: RecurrenceRule = {
+        freq: recurrence.freq,
+        interval: recurrence.interval ?? 1,
+        ...(recurrence.until ? { until: new Date(recurrence.until) } : {}),
+        ...(recurrence.count ? { count: recurrence.count } : {}),
+        exceptions: (recurrence.exceptions ?? []).map(d => new Date(d))
+      }
+      if (exceedsOccurrenceLimit({ start: startAt, end: endAt }, rule)) {
+        return reply.code(400).send({ detail: `В серии не может быть больше ${MAX_OCCURRENCES} занятий: выберите более раннюю дату окончания` })
+      }
+      const occurrences = expandRecurrence({ start: startAt, end: endAt }, rule)
+      if (occurrences.some((o, i) => i > 0 && overlaps(o, occurrences[i - 1]!))) {
+        return reply.code(400).send({ detail: 'Занятия серии пересекаются друг с другом: увеличьте интервал повторения' })
+      }
+
+      // Отчёт по каждому занятию: с какими бронями оно пересекается
+      const report = await findConflictsForEach(app.prisma, { auditoryId, deviceId }, occurrences)
+      const conflicting = report.filter(isBlocked)
+      if (conflicting.length > 0 && !skipConflicts) {
+        return reply.code(409).send({
+          detail: `Занято ${conflicting.length} из ${report.length} занятий серии`,
+          occurrences: report.map(occurrenceReport)
+        })
+      }
+      const free = report.filter(o => !isBlocked(o))
+      if (free.length === 0) {
+        return reply.code(409).send({ detail: 'Все занятия серии пересекаются с существующими бронями' })
       }
-    })
 
-    if (activeBooking) {
-      return reply.code(409).send({ 
-        detail: `Аудитория занята до ${activeBooking.endTime.toLocaleTimeString()}` 
+      // Пропущенные из-за конфликтов даты становятся исключениями серии
+      const series = await unlessOverlap(app.prisma.bookingSeries.create({
+        data: {
+          userId: req.user!.id,
+          freq: rule.freq,
+          interval: rule.interval ?? 1,
+          until: rule.until ?? null,
+          count: rule.count ?? null,
+          exceptions: [...(rule.exceptions ?? []), ...conflicting.map(o => o.start)],
+          bookings: {
+            create: free.map(o => ({ deviceId, auditoryId, userId: req.user!.id, startTime: o.start, endTime: o.end, status }))
+          }
+        },
+        include: { bookings: { include: bookingInclude, orderBy: { startTime: 'asc' } } }
+      }))
+      if (!series) return seriesOverlapConflict(reply, { auditoryId, deviceId }, free)
+      const { bookings, ...rest } = series
+      app.broadcast({ entity: 'booking', action: 'bulk' })
+      await app.audit(req.user, bookingsCreated(bookings))
+      app.sendMail(seriesMail(status === 'pending' ? 'pending' : 'created', bookings))
+      return reply.code(201).send({
+        series: rest,
+        bookings,
+        skipped: conflicting.map(occurrenceReport)
       })
     }
 
-    const booking = await app.prisma.booking.create({
-      data: { deviceId, auditoryId, endTime: endAt },
-      include: { device: true, auditory: true }
-    })
+    const maintenance = await findMaintenanceConflicts(app.prisma, { auditoryId, deviceId }, { start: startAt, end: endAt })
+    if (maintenance.length > 0) {
+      return reply.code(409).send({ detail: maintenanceDetail(maintenance), maintenance })
+    }
+
+    // Валидация: не пересекается ли интервал с другими бронями этой аудитории или этого устройства
+    const conflicts = await findConflicts(app.prisma, { auditoryId, deviceId }, { start: startAt, end: endAt })
+    if (conflicts.length > 0) {
+      return reply.code(409).send({ detail: conflictDetail(conflicts, { auditoryId, deviceId }), conflicts })
+    }
+
+    const booking = await unlessOverlap(app.prisma.booking.create({
+      data: { deviceId, auditoryId, userId: req.user!.id, startTime: startAt, endTime: endAt, status },
+      include: bookingInclude
+    }))
+    if (!booking) return overlapConflict(reply, { auditoryId, deviceId }, { start: startAt, end: endAt })
+    app.broadcast({ entity: 'booking', action: 'created', id: booking.id, data: forViewer(null, booking) })
+    await app.audit(req.user, bookingsCreated([booking]))
+    app.sendMail(bookingMail(status === 'pending' ? 'pending' : 'created', booking))
     return reply.code(201).send(booking)
   })
 
-  app.put('/api/bookings/:id', { schema: { body: UpdateBookingSchema } }, async (req, reply) => {
-    const { id } = req.params as { id: string }
-    const { deviceId, auditoryId, endTime } = req.body
+  app.put('/api/bookings/:id', {
+    preHandler: app.authenticate,
+    schema: {
+      params: IdParamsSchema,
+      body: UpdateBookingSchema,
+      querystring: BookingScopeQuerySchema,
+      response: { 200: T.Union([BookingSchema, UpdatedSeriesSchema]), ...ConflictResponses }
+    }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const { deviceId, auditoryId, startTime, endTime } = req.body
     const now = new Date()
     let newEndAt: Date | undefined
     if (endTime) {
@@ -118,6 +1094,7 @@ export async function buildApp() {
         return reply.code(400).send({ detail: 'Время окончания должно быть в будущем' })
       }
     }
+    const newStartAt = startTime ? new Date(startTime) : undefined
 
     const booking = await app.prisma.booking.findUnique({
       where: { id },
@@ -126,43 +1103,787 @@ export async function buildApp() {
     if (!booking) {
       return reply.code(404).send({ detail: 'Бронирование не найдено' })
     }
+    if (!canManageBooking(req.user!, booking)) {
+      return reply.code(403).send({ detail: 'Можно изменять только свои бронирования' })
+    }
+    if (booking.status === 'rejected') {
+      return reply.code(409).send({ detail: 'Отклонённое бронирование изменить нельзя' })
+    }
+    const archived = await archivedDetail(
+      auditoryId && auditoryId !== booking.auditoryId ? auditoryId : null,
+      deviceId && deviceId !== booking.deviceId ? deviceId : null
+    )
+    if (archived) {
+      return reply.code(409).send({ detail: archived })
+    }
 
     const targetAuditoryId = auditoryId || booking.auditoryId
+    const targetDeviceId = deviceId || booking.deviceId
+    const targetStartAt = newStartAt || booking.startTime
     const targetEndAt = newEndAt || booking.endTime
 
-    if (auditoryId || endTime) {
-      const conflicting = await app.prisma.booking.findFirst({
-        where: {
-          auditoryId: targetAuditoryId,
-          endTime: { gt: now },
-          id: { not: id }
-        }
+    if (targetStartAt >= targetEndAt) {
+      return reply.code(400).send({ detail: 'Время начала должно быть раньше времени окончания' })
+    }
+    // Уже начавшуюся бронь можно продлить, но перенести её начало в прошлое нельзя
+    if (newStartAt && newStartAt.getTime() !== booking.startTime.getTime() && startsInPast(newStartAt, now)) {
+      return reply.code(400).send({ detail: 'Время начала не может быть в прошлом' })
+    }
+
+    // Любое изменение времени или ресурсов брони в аудитории с подтверждением снова делает её заявкой:
+    // одобряли конкретный интервал, а не аудиторию вообще
+    const changed = targetAuditoryId !== booking.auditoryId || targetDeviceId !== booking.deviceId ||
+      targetStartAt.getTime() !== booking.startTime.getTime() || targetEndAt.getTime() !== booking.endTime.getTime()
+    let approval: { status?: 'pending'; decidedAt?: null; decisionReason?: null } = {}
+    if (changed && !canApproveBookings(req.user!)) {
+      const target = targetAuditoryId === booking.auditoryId
+        ? booking.auditory
+        : await app.prisma.auditory.findUnique({ where: { id: targetAuditoryId } })
+      if (target?.requiresApproval) approval = { status: 'pending', decidedAt: null, decisionReason: null }
+    }
+
+    // Изменение всей серии: сдвиг времени и смена ресурсов применяются ко всем будущим занятиям
+    if (req.query.scope === 'series' && booking.seriesId) {
+      const shiftStart = targetStartAt.getTime() - booking.startTime.getTime()
+      const shiftEnd = targetEndAt.getTime() - booking.endTime.getTime()
+      const targets = await app.prisma.booking.findMany({
+        where: { seriesId: booking.seriesId, endTime: { gt: now } },
+        orderBy: { startTime: 'asc' }
       })
-      if (conflicting) {
-        return reply.code(409).send({ 
-          detail: `Аудитория занята до ${conflicting.endTime.toLocaleTimeString()}` 
+      const resources = { auditoryId: targetAuditoryId, deviceId: targetDeviceId }
+      const moved = targets.map(t => ({
+        id: t.id,
+        status: t.status,
+        start: new Date(t.startTime.getTime() + shiftStart),
+        end: new Date(t.endTime.getTime() + shiftEnd)
+      }))
+      if (moved.some(m => m.end <= now)) {
+        return reply.code(400).send({ detail: 'Время окончания должно быть в будущем' })
+      }
+      if (shiftStart !== 0 && moved.some(m => startsInPast(m.start, now))) {
+        return reply.code(400).send({ detail: 'Время начала не может быть в прошлом' })
+      }
+      const report = await findConflictsForEach(app.prisma, resources, moved, targets.map(t => t.id))
+      if (report.some(isBlocked)) {
+        return reply.code(409).send({
+          detail: 'Часть занятий серии пересекается с существующими бронями или обслуживанием',
+          occurrences: report.map(occurrenceReport)
         })
       }
+
+      const updated = await unlessOverlap(app.prisma.$transaction(moved.map(m => app.prisma.booking.update({
+        where: { id: m.id },
+        data: {
+          ...resources,
+          startTime: m.start,
+          endTime: m.end,
+          ...(shiftStart !== 0 ? rescheduled(m.status) : {}),
+          ...approval,
+          legacyOverlap: false
+        },
+        include: bookingInclude
+      }))))
+      if (!updated) return seriesOverlapConflict(reply, resources, moved, targets.map(t => t.id))
+      app.broadcast({ entity: 'booking', action: 'bulk' })
+      await app.audit(req.user, bookingsUpdated(targets, updated))
+      app.sendMail(seriesMail('changed', updated))
+      if (booking.userId && booking.userId !== req.user!.id) {
+        await app.notify(booking.userId, 'booking_changed',
+          `Серия бронирований аудитории «${booking.auditory.name}» изменена ${actorLabel(req.user!)}`,
+          { bookingId: id, auditoryId: targetAuditoryId, startTime: targetStartAt, endTime: targetEndAt })
+      }
+      await app.notifyRoomsFreed(targets)
+      return { seriesId: booking.seriesId, bookings: updated }
     }
 
-    const data: any = {}
-    if (deviceId) data.deviceId = deviceId
-    if (auditoryId) data.auditoryId = auditoryId
-    if (newEndAt) data.endTime = newEndAt
+    if (deviceId || auditoryId || startTime || endTime) {
+      const resources = { auditoryId: targetAuditoryId, deviceId: targetDeviceId }
+      const maintenance = await findMaintenanceConflicts(app.prisma, resources, { start: targetStartAt, end: targetEndAt })
+      if (maintenance.length > 0) {
+        return reply.code(409).send({ detail: maintenanceDetail(maintenance), maintenance })
+      }
+      const conflicts = await findConflicts(app.prisma, resources, { start: targetStartAt, end: targetEndAt }, id)
+      if (conflicts.length > 0) {
+        return reply.code(409).send({ detail: conflictDetail(conflicts, resources), conflicts })
+      }
+    }
 
-    const updated = await app.prisma.booking.update({
+    const data: Prisma.BookingUpdateInput = {
+      ...(deviceId ? { device: { connect: { id: deviceId } } } : {}),
+      ...(auditoryId ? { auditory: { connect: { id: auditoryId } } } : {}),
+      ...(newStartAt ? { startTime: newStartAt } : {}),
+      ...(newEndAt ? { endTime: newEndAt } : {}),
+      ...(newStartAt && newStartAt.getTime() !== booking.startTime.getTime() ? rescheduled(booking.status) : {}),
+      // Перенос прошёл проверку пересечений — бронь снова под ограничениями БД
+      ...(deviceId || auditoryId || startTime || endTime ? { legacyOverlap: false } : {}),
+      ...approval
+    }
+
+    const updated = await unlessOverlap(app.prisma.booking.update({
       where: { id },
       data,
-      include: { device: true, auditory: true }
-    })
+      include: bookingInclude
+    }))
+    if (!updated) {
+      return overlapConflict(reply, { auditoryId: targetAuditoryId, deviceId: targetDeviceId }, { start: targetStartAt, end: targetEndAt }, id)
+    }
+    app.broadcast({ entity: 'booking', action: 'updated', id, data: forViewer(null, updated) })
+    await app.audit(req.user, bookingsUpdated([booking], [updated]))
+    app.sendMail(bookingMail('changed', updated))
+    if (booking.userId && booking.userId !== req.user!.id) {
+      await app.notify(booking.userId, 'booking_changed',
+        `Бронирование аудитории «${booking.auditory.name}» изменено ${actorLabel(req.user!)}`,
+        { bookingId: id, auditoryId: updated.auditoryId, startTime: updated.startTime, endTime: updated.endTime })
+    }
+    await app.notifyRoomsFreed([booking])
     return updated
   })
 
-  app.delete('/api/bookings/:id', async (req, reply) => {
-    const { id } = req.params as { id: string }
+  app.delete('/api/bookings/:id', {
+    preHandler: app.authenticate,
+    schema: { params: IdParamsSchema, querystring: BookingScopeQuerySchema, response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const booking = await app.prisma.booking.findUnique({ where: { id }, include: bookingInclude })
+    if (!booking) {
+      return reply.code(404).send({ detail: 'Бронирование не найдено' })
+    }
+    if (!canManageBooking(req.user!, booking)) {
+      return reply.code(403).send({ detail: 'Можно отменять только свои бронирования' })
+    }
+    // Владельца предупреждаем, если бронь отменил не он сам, а администратор или менеджер
+    const notifyOwner = async (what: string) => {
+      if (!booking.userId || booking.userId === req.user!.id) return
+      await app.notify(booking.userId, 'booking_cancelled',
+        `${what} аудитории «${booking.auditory.name}» ${actorLabel(req.user!)}`,
+        { bookingId: id, auditoryId: booking.auditoryId, startTime: booking.startTime, endTime: booking.endTime })
+    }
+
+    if (booking.seriesId) {
+      const seriesId = booking.seriesId
+      if (req.query.scope === 'series') {
+        // Отмена серии: удаляем ещё не начавшиеся занятия, прошедшие остаются в истории
+        const now = new Date()
+        const cancelled = await app.prisma.booking.findMany({
+          where: { seriesId, startTime: { gt: now } },
+          include: bookingInclude,
+          orderBy: { startTime: 'asc' }
+        })
+        await app.prisma.$transaction([
+          app.prisma.booking.deleteMany({ where: { id: { in: cancelled.map(b => b.id) } } }),
+          app.prisma.bookingSeries.update({ where: { id: seriesId }, data: { until: now } })
+        ])
+        app.broadcast({ entity: 'booking', action: 'bulk' })
+        await app.audit(req.user, bookingsDeleted(cancelled))
+        await notifyOwner('Отменена серия бронирований')
+        app.sendMail(seriesMail('cancelled', cancelled))
+        await app.notifyRoomsFreed(cancelled)
+      } else {
+        // Отмена одного занятия записывается в исключения серии
+        await app.prisma.$transaction([
+          app.prisma.booking.delete({ where: { id } }),
+          app.prisma.bookingSeries.update({
+            where: { id: seriesId },
+            data: { exceptions: { push: booking.startTime } }
+          })
+        ])
+        app.broadcast({ entity: 'booking', action: 'deleted', id })
+        await app.audit(req.user, bookingsDeleted([booking]))
+        await notifyOwner('Отменено занятие серии')
+        app.sendMail(bookingMail('cancelled', booking))
+        await app.notifyRoomsFreed([booking])
+      }
+      return reply.code(204).send()
+    }
+
     await app.prisma.booking.delete({ where: { id } })
+    app.broadcast({ entity: 'booking', action: 'deleted', id })
+    await app.audit(req.user, bookingsDeleted([booking]))
+    await notifyOwner('Отменено бронирование')
+    app.sendMail(bookingMail('cancelled', booking))
+    await app.notifyRoomsFreed([booking])
     return reply.code(204).send()
   })
 
+  // Решение по заявке в аудиторию с подтверждением. scope=series — сразу по всем ожидающим занятиям серии.
+  // Одобрение повторно проверяет пересечения: интервал могли занять, пока заявка ждала.
+  const decide = async (
+    reply: FastifyReply,
+    actor: SessionUser,
+    id: string,
+    scope: Static<typeof BookingScopeQuerySchema>['scope'],
+    decision: 'booked' | 'rejected',
+    reason: string | null
+  ) => {
+    const booking = await app.prisma.booking.findUnique({ where: { id } })
+    if (!booking) {
+      return reply.code(404).send({ detail: 'Бронирование не найдено' })
+    }
+    if (booking.status !== 'pending') {
+      return reply.code(409).send({ detail: 'Бронирование не ожидает подтверждения' })
+    }
+    const targets = scope === 'series' && booking.seriesId
+      ? await app.prisma.booking.findMany({ where: { seriesId: booking.seriesId, status: 'pending' }, orderBy: { startTime: 'asc' } })
+      : [booking]
+
+    const busyDetail = 'Интервал уже занят другой бронью или обслуживанием: одобрить заявку нельзя'
+    const approvalConflict = async () => {
+      for (const [resources, group] of groupByResources(targets)) {
+        const report = await findConflictsForEach(app.prisma, resources, group.map(t => ({ start: t.startTime, end: t.endTime })))
+        if (report.some(isBlocked)) {
+          return reply.code(409).send({ detail: busyDetail, occurrences: report.map(occurrenceReport) })
+        }
+      }
+      return null
+    }
+    if (decision === 'booked') {
+      const conflict = await approvalConflict()
+      if (conflict) return conflict
+    }
+
+    const now = new Date()
+    const updated = await unlessOverlap(app.prisma.$transaction(targets.map(t => app.prisma.booking.update({
+      where: { id: t.id },
+      data: { status: decision, decidedAt: now, decisionReason: reason },
+      include: bookingInclude
+    }))))
+    if (!updated) return (await approvalConflict()) ?? reply.code(409).send({ detail: busyDetail })
+    app.broadcast(updated.length > 1
+      ? { entity: 'booking', action: 'bulk' }
+      : { entity: 'booking', action: 'updated', id, data: forViewer(null, updated[0]!) })
+    await app.audit(actor, bookingsUpdated(targets, updated))
+
+    const first = updated[0]!
+    const approved = decision === 'booked'
+    if (first.userId) {
+      await app.notify(first.userId, approved ? 'booking_approved' : 'booking_rejected',
+        `Заявка на аудиторию «${first.auditory.name}» ${approved ? 'одобрена' : 'отклонена'}${reason ? `: ${reason}` : ''}`,
+        { bookingId: first.id, auditoryId: first.auditoryId, startTime: first.startTime, endTime: first.endTime })
+    }
+    const kind = approved ? 'approved' : 'rejected'
+    app.sendMail(updated.length > 1 ? seriesMail(kind, updated, reason) : bookingMail(kind, first, reason))
+    return updated.length > 1 ? { seriesId: booking.seriesId, bookings: updated } : first
+  }
+
+  // Занятия серии могли переносить по одному, поэтому ресурсы проверяются по группам
+  const groupByResources = <B extends { auditoryId: string; deviceId: string | null }>(bookings: B[]) => {
+    const groups = new Map<string, [{ auditoryId: string; deviceId: string | null }, B[]]>()
+    for (const b of bookings) {
+      const key = `${b.auditoryId}:${b.deviceId ?? ''}`
+      const group = groups.get(key)
+      if (group) group[1].push(b)
+      else groups.set(key, [{ auditoryId: b.auditoryId, deviceId: b.deviceId }, [b]])
+    }
+    return groups.values()
+  }
+
+  app.post('/api/bookings/:id/approve', {
+    preHandler: app.requireRole('admin', 'manager'),
+    schema: {
+      params: IdParamsSchema,
+      body: ApproveBookingSchema,
+      querystring: BookingScopeQuerySchema,
+      response: { 200: T.Union([BookingSchema, UpdatedSeriesSchema]), ...ConflictResponses }
+    }
+  }, async (req, reply) => {
+    const { id } = req.params
+    return decide(reply, req.user!, id, req.query.scope, 'booked', req.body.reason || null)
+  })
+
+  app.post('/api/bookings/:id/reject', {
+    preHandler: app.requireRole('admin', 'manager'),
+    schema: {
+      params: IdParamsSchema,
+      body: RejectBookingSchema,
+      querystring: BookingScopeQuerySchema,
+      response: { 200: T.Union([BookingSchema, UpdatedSeriesSchema]), ...ConflictResponses }
+    }
+  }, async (req, reply) => {
+    const { id } = req.params
+    return decide(reply, req.user!, id, req.query.scope, 'rejected', req.body.reason)
+  })
+
+  // Отметка о приходе: возможна с начала брони (или с одобрения, если оно пришло позже) в течение окна CHECK_IN_WINDOW_MINUTES
+  app.post('/api/bookings/:id/check-in', {
+    preHandler: app.authenticate,
+    schema: { params: IdParamsSchema, response: { 200: BookingSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const booking = await app.prisma.booking.findUnique({ where: { id } })
+    if (!booking) {
+      return reply.code(404).send({ detail: 'Бронирование не найдено' })
+    }
+    if (!canManageBooking(req.user!, booking)) {
+      return reply.code(403).send({ detail: 'Отметиться можно только в своём бронировании' })
+    }
+    if (booking.status === 'checked_in') {
+      return reply.code(409).send({ detail: 'Отметка о приходе уже есть' })
+    }
+    if (booking.status === 'no_show') {
+      return reply.code(409).send({ detail: 'Бронирование уже снято из-за неявки' })
+    }
+    if (booking.status === 'pending' || booking.status === 'rejected') {
+      return reply.code(409).send({ detail: 'Бронирование не подтверждено' })
+    }
+    // Занятиям из импортированного расписания и старым броням отметка не нужна: их не снимают как no_show
+    if (!booking.checkInRequired) {
+      return reply.code(409).send({ detail: 'Для этого бронирования отметка о приходе не требуется' })
+    }
+    const now = new Date()
+    if (now < booking.startTime) {
+      return reply.code(400).send({ detail: 'Отметиться можно только после начала бронирования' })
+    }
+    if (now >= checkInDeadline(booking)) {
+      return reply.code(400).send({ detail: `Отметиться можно в течение ${CHECK_IN_WINDOW_MINUTES} минут после начала бронирования или его одобрения` })
+    }
+
+    const updated = await app.prisma.booking.update({
+      where: { id },
+      data: { status: 'checked_in', checkedInAt: now },
+      include: bookingInclude
+    })
+    app.broadcast({ entity: 'booking', action: 'updated', id, data: forViewer(null, updated) })
+    await app.audit(req.user, bookingsUpdated([booking], [updated]))
+    return updated
+  })
+
+  // Импорт расписания из .ics. LOCATION события сопоставляется с названием (или номером) аудитории.
+  // Без commit=true ничего не создаётся: ответ — отчёт по каждому событию. С commit=true все допустимые
+  // события создаются в одной транзакции; у повторяющихся занятые даты пропускаются, как при skipConflicts.
+  app.post('/api/bookings/import', {
+    preHandler: app.requireRole('admin', 'manager'),
+    schema: {
+      consumes: ['text/calendar'],
+      body: T.String(),
+      querystring: ImportBookingsQuerySchema,
+      response: { 200: TimetableImportReportSchema, 201: TimetableImportReportSchema, ...ConflictResponses }
+    }
+  }, async (req, reply) => {
+    const events = parseICalendar(req.body)
+    if (events.length === 0) {
+      return reply.code(400).send({ detail: 'В файле нет событий' })
+    }
+
+    const auditories = await app.prisma.auditory.findMany({ where: { archivedAt: null }, select: { id: true, name: true, code: true } })
+    const byLocation = new Map<string, string>()
+    for (const a of auditories) if (a.code) byLocation.set(a.code.toLowerCase(), a.id)
+    for (const a of auditories) byLocation.set(a.name.toLowerCase(), a.id)
+
+    const now = new Date()
+    const accepted: { auditoryId: string; rule: RecurrenceRule | null; occurrences: Interval[]; skipped: Date[] }[] = []
+    const report: Static<typeof ImportedEventSchema>[] = []
+    for (const event of events) {
+      // У события с ошибкой разбора время может быть не задано (Invalid Date)
+      const time = (d: Date) => (Number.isNaN(d.getTime()) ? null : d)
+      const base = { uid: event.uid, summary: event.summary, location: event.location, startTime: time(event.start), endTime: time(event.end) }
+      if (event.error) {
+        report.push({ ...base, status: 'invalid', detail: event.error })
+        continue
+      }
+      const auditoryId = byLocation.get(event.location.toLowerCase())
+      if (!auditoryId) {
+        report.push({ ...base, status: 'unknownRoom', detail: `Аудитория «${event.location}» не найдена` })
+        continue
+      }
+      const first = { start: event.start, end: event.end }
+      const upcoming = (event.rule ? expandRecurrence(first, event.rule) : [first]).filter(o => o.end > now)
+      if (upcoming.length === 0) {
+        report.push({ ...base, auditoryId, status: 'past', detail: 'Событие уже прошло' })
+        continue
+      }
+
+      // Занятие блокируют брони и обслуживание в БД, а также уже принятые события того же файла
+      const checks = (await findConflictsForEach(app.prisma, { auditoryId }, upcoming)).map(o => ({
+        ...o,
+        inFile: accepted.some(a => a.auditoryId === auditoryId && a.occurrences.some(x => overlaps(o, x)))
+      }))
+      const blocked = checks.filter(o => isBlocked(o) || o.inFile)
+      const free = checks.filter(o => !isBlocked(o) && !o.inFile)
+      const occurrences = blocked.map(o => ({ ...occurrenceReport(o), inFile: o.inFile }))
+      if (free.length === 0) {
+        const o = checks[0]!
+        const detail = event.rule
+          ? 'Все занятия серии пересекаются с бронями, обслуживанием или другими событиями файла'
+          : o.maintenance.length > 0 ? maintenanceDetail(o.maintenance)
+          : o.conflicts.length > 0 ? conflictDetail(o.conflicts, { auditoryId })
+          : 'Пересекается с другим событием из файла'
+        report.push({ ...base, auditoryId, status: 'conflict', detail, occurrences })
+        continue
+      }
+      accepted.push({ auditoryId, rule: event.rule, occurrences: free, skipped: blocked.map(o => o.start) })
+      report.push(blocked.length > 0
+        ? { ...base, auditoryId, status: 'partial', detail: `Занято ${blocked.length} из ${checks.length} занятий серии — они будут пропущены`, occurrences }
+        : { ...base, auditoryId, status: 'ok' })
+    }
+
+    if (!req.query.commit) {
+      return { committed: false, created: 0, events: report }
+    }
+    if (accepted.length === 0) {
+      return reply.code(409).send({ detail: 'В файле нет событий, которые можно импортировать', events: report })
+    }
+
+    const userId = req.user!.id
+    const written = await unlessOverlap(app.prisma.$transaction(async (tx) => {
+      const created = []
+      for (const { auditoryId, rule, occurrences, skipped } of accepted) {
+        // Занятия по расписанию проводятся без отметки о приходе
+        const bookings = occurrences.map(o => ({
+          auditoryId, userId, startTime: o.start, endTime: o.end, checkInRequired: false
+        }))
+        if (!rule) {
+          created.push(...await tx.booking.createManyAndReturn({ data: bookings }))
+          continue
+        }
+        const series = await tx.bookingSeries.create({
+          data: {
+            userId,
+            freq: rule.freq,
+            interval: rule.interval ?? 1,
+            until: rule.until ?? null,
+            count: rule.count ?? null,
+            exceptions: [...(rule.exceptions ?? []), ...skipped],
+            bookings: { create: bookings }
+          },
+          include: { bookings: true }
+        })
+        created.push(...series.bookings)
+      }
+      return created
+    }))
+    if (!written) {
+      return reply.code(409).send({ detail: 'Пока шёл импорт, часть интервалов заняли: повторите предпросмотр' })
+    }
+    app.broadcast({ entity: 'booking', action: 'bulk' })
+    await app.audit(req.user, bookingsCreated(written))
+    return reply.code(201).send({ committed: true, created: written.length, events: report })
+  })
+
+  // --- ARCHIVE ---
+  // Устройство или аудиторию с бронями удалить нельзя — их отправляют в архив: из списков и выбора они
+  // пропадают, а история броней остаётся. Будущие брони при этом отменяются только по явному cancelUpcoming.
+  const upcomingBookings = (where: Prisma.BookingWhereInput) => app.prisma.booking.findMany({
+    where: { ...where, startTime: { gt: new Date() }, status: { not: 'rejected' } },
+    include: bookingInclude,
+    orderBy: { startTime: 'asc' }
+  })
+  type UpcomingBooking = Awaited<ReturnType<typeof upcomingBookings>>[number]
+
+  // Что затронет архивирование: сколько броней в истории и какие ещё впереди
+  const archiveImpact = async (where: Prisma.BookingWhereInput) => {
+    const [bookings, upcoming] = await Promise.all([app.prisma.booking.count({ where }), upcomingBookings(where)])
+    return { bookings, upcoming }
+  }
+
+  // Отмена будущих броней архивной записи: владельцы узнают о ней так же, как об отмене администратором
+  const cancelUpcoming = async (actor: SessionUser, upcoming: UpcomingBooking[], reason: string) => {
+    if (upcoming.length === 0) return
+    await app.prisma.booking.deleteMany({ where: { id: { in: upcoming.map(b => b.id) } } })
+    app.broadcast({ entity: 'booking', action: 'bulk' })
+    await app.audit(actor, bookingsDeleted(upcoming))
+    for (const b of upcoming) {
+      if (b.userId && b.userId !== actor.id) {
+        await app.notify(b.userId, 'booking_cancelled',
+          `Отменено бронирование аудитории «${b.auditory.name}» ${actorLabel(actor)}: ${reason}`,
+          { bookingId: b.id, auditoryId: b.auditoryId, startTime: b.startTime, endTime: b.endTime })
+      }
+      app.sendMail(bookingMail('cancelled', b, reason))
+    }
+  }
+
+  const upcomingConflict = (reply: FastifyReply, detail: string, upcoming: UpcomingBooking[]) =>
+    reply.code(409).send({ detail: `${detail}: будущих бронирований — ${upcoming.length}. Архивировать можно только вместе с их отменой`, upcoming })
+
+  app.get('/api/devices/:id/impact', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 200: ArchiveImpactSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const device = await app.prisma.device.findUnique({ where: { id } })
+    if (!device) {
+      return reply.code(404).send({ detail: 'Устройство не найдено' })
+    }
+    return archiveImpact({ deviceId: id })
+  })
+
+  app.post('/api/devices/:id/archive', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, body: ArchiveSchema, response: { 200: ArchivedDeviceSchema, ...ConflictResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const device = await app.prisma.device.findUnique({ where: { id } })
+    if (!device) {
+      return reply.code(404).send({ detail: 'Устройство не найдено' })
+    }
+    if (device.archivedAt) {
+      return reply.code(409).send({ detail: 'Устройство уже в архиве' })
+    }
+    const upcoming = await upcomingBookings({ deviceId: id })
+    if (upcoming.length > 0 && !req.body.cancelUpcoming) {
+      return upcomingConflict(reply, 'Устройство ещё забронировано', upcoming)
+    }
+
+    // Сначала архив: новые брони устройства больше не создаются, а успевшие появиться отменятся вместе с остальными
+    const archived = await app.prisma.device.update({ where: { id }, data: { archivedAt: new Date() } })
+    const cancelled = await upcomingBookings({ deviceId: id })
+    await cancelUpcoming(req.user!, cancelled, `устройство «${device.name}» выведено из использования`)
+    app.broadcast({ entity: 'device', action: 'updated', id, data: archived })
+    await app.audit(req.user, [{ entity: 'device', entityId: id, action: 'updated', before: device, after: archived }])
+    await app.notifyRoomsFreed(cancelled)
+    return { ...archived, cancelled: cancelled.length }
+  })
+
+  app.post('/api/devices/:id/restore', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 200: DeviceSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const device = await app.prisma.device.findUnique({ where: { id } })
+    if (!device) {
+      return reply.code(404).send({ detail: 'Устройство не найдено' })
+    }
+    const restored = await app.prisma.device.update({ where: { id }, data: { archivedAt: null } })
+    app.broadcast({ entity: 'device', action: 'updated', id, data: restored })
+    await app.audit(req.user, [{ entity: 'device', entityId: id, action: 'updated', before: device, after: restored }])
+    return restored
+  })
+
+  app.get('/api/auditories/:id/impact', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 200: ArchiveImpactSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const auditory = await app.prisma.auditory.findUnique({ where: { id } })
+    if (!auditory) {
+      return reply.code(404).send({ detail: 'Аудитория не найдена' })
+    }
+    return archiveImpact({ auditoryId: id })
+  })
+
+  app.post('/api/auditories/:id/archive', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, body: ArchiveSchema, response: { 200: ArchivedAuditorySchema, ...ConflictResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const auditory = await app.prisma.auditory.findUnique({ where: { id }, include: { equipment: true } })
+    if (!auditory) {
+      return reply.code(404).send({ detail: 'Аудитория не найдена' })
+    }
+    if (auditory.archivedAt) {
+      return reply.code(409).send({ detail: 'Аудитория уже в архиве' })
+    }
+    const upcoming = await upcomingBookings({ auditoryId: id })
+    if (upcoming.length > 0 && !req.body.cancelUpcoming) {
+      return upcomingConflict(reply, 'Аудитория ещё забронирована', upcoming)
+    }
+
+    // Ожидания освобождения архивной аудитории уже не сработают
+    const [archived] = await app.prisma.$transaction([
+      app.prisma.auditory.update({ where: { id }, data: { archivedAt: new Date() }, include: { equipment: true } }),
+      app.prisma.roomWatch.deleteMany({ where: { auditoryId: id } })
+    ])
+    const cancelled = await upcomingBookings({ auditoryId: id })
+    await cancelUpcoming(req.user!, cancelled, `аудитория «${auditory.name}» выведена из использования`)
+    app.broadcast({ entity: 'auditory', action: 'updated', id, data: withEquipmentCodes(archived) })
+    await app.audit(req.user, [{
+      entity: 'auditory',
+      entityId: id,
+      action: 'updated',
+      before: withEquipmentCodes(auditory),
+      after: withEquipmentCodes(archived)
+    }])
+    return { ...withEquipmentCodes(archived), cancelled: cancelled.length }
+  })
+
+  app.post('/api/auditories/:id/restore', {
+    preHandler: app.requireRole('admin'),
+    schema: { params: IdParamsSchema, response: { 200: AuditorySchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const auditory = await app.prisma.auditory.findUnique({ where: { id }, include: { equipment: true } })
+    if (!auditory) {
+      return reply.code(404).send({ detail: 'Аудитория не найдена' })
+    }
+    const restored = await app.prisma.auditory.update({ where: { id }, data: { archivedAt: null }, include: { equipment: true } })
+    app.broadcast({ entity: 'auditory', action: 'updated', id, data: withEquipmentCodes(restored) })
+    await app.audit(req.user, [{
+      entity: 'auditory',
+      entityId: id,
+      action: 'updated',
+      before: withEquipmentCodes(auditory),
+      after: withEquipmentCodes(restored)
+    }])
+    return withEquipmentCodes(restored)
+  })
+
+  // --- AUDIT ---
+  // История изменений устройств, аудиторий и броней: кто, когда и что поменял (before/after)
+  app.get('/api/audit', {
+    preHandler: app.authenticate,
+    schema: { querystring: AuditQuerySchema, response: { 200: AuditPageSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { entity, id } = req.query
+    if (!canReadAudit(req.user!)) {
+      const booking = entity === 'booking' && id ? await app.prisma.booking.findUnique({ where: { id } }) : null
+      if (!booking || booking.userId !== req.user!.id) {
+        return reply.code(403).send({ detail: 'Можно смотреть только историю своих бронирований' })
+      }
+    }
+    const { page, pageSize, skip, take } = pageArgs(req.query)
+    const where = { ...(entity ? { entity } : {}), ...(id ? { entityId: id } : {}) }
+    const [total, items] = await app.prisma.$transaction([
+      app.prisma.auditLog.count({ where }),
+      app.prisma.auditLog.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take })
+    ])
+    return { items, page, pageSize, total }
+  })
+
+  // --- NOTIFICATIONS ---
+  // Уведомления текущего пользователя, новые сверху; unread — счётчик для значка на колокольчике
+  app.get('/api/notifications', {
+    preHandler: app.authenticate,
+    schema: { querystring: NotificationsQuerySchema, response: { 200: NotificationPageSchema, ...ProblemResponses } }
+  }, async (req) => {
+    const { page, pageSize, skip, take } = pageArgs(req.query, 20)
+    const userId = req.user!.id
+    const where = { userId, ...(req.query.unread ? { readAt: null } : {}) }
+    const [total, unread, items] = await app.prisma.$transaction([
+      app.prisma.notification.count({ where }),
+      app.prisma.notification.count({ where: { userId, readAt: null } }),
+      app.prisma.notification.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take })
+    ])
+    return { items, page, pageSize, total, unread }
+  })
+
+  app.post('/api/notifications/:id/read', {
+    preHandler: app.authenticate,
+    schema: { params: IdParamsSchema, response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const { count } = await app.prisma.notification.updateMany({
+      where: { id, userId: req.user!.id, readAt: null },
+      data: { readAt: new Date() }
+    })
+    if (count === 0) {
+      const exists = await app.prisma.notification.count({ where: { id, userId: req.user!.id } })
+      if (!exists) return reply.code(404).send({ detail: 'Уведомление не найдено' })
+    }
+    return reply.code(204).send()
+  })
+
+  app.post('/api/notifications/read-all', {
+    preHandler: app.authenticate,
+    schema: { response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    await app.prisma.notification.updateMany({
+      where: { userId: req.user!.id, readAt: null },
+      data: { readAt: new Date() }
+    })
+    return reply.code(204).send()
+  })
+
+  // Ожидания «сообщить, когда аудитория освободится»
+  app.get('/api/watches', {
+    preHandler: app.authenticate,
+    schema: { response: { 200: T.Array(RoomWatchSchema), ...ProblemResponses } }
+  }, async (req) => {
+    return app.prisma.roomWatch.findMany({
+      where: { userId: req.user!.id, endTime: { gt: new Date() } },
+      include: { auditory: true },
+      orderBy: { startTime: 'asc' }
+    })
+  })
+
+  app.post('/api/watches', {
+    preHandler: app.authenticate,
+    schema: { body: CreateRoomWatchSchema, response: { 201: RoomWatchSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { auditoryId, startTime, endTime } = req.body
+    const startAt = new Date(startTime)
+    const endAt = new Date(endTime)
+    if (endAt <= new Date()) {
+      return reply.code(400).send({ detail: 'Время окончания должно быть в будущем' })
+    }
+    if (startAt >= endAt) {
+      return reply.code(400).send({ detail: 'Время начала должно быть раньше времени окончания' })
+    }
+    const auditory = await app.prisma.auditory.findUnique({ where: { id: auditoryId } })
+    if (!auditory) {
+      return reply.code(404).send({ detail: 'Аудитория не найдена' })
+    }
+    const interval = { start: startAt, end: endAt }
+    const [conflicts, maintenance] = await Promise.all([
+      findConflicts(app.prisma, { auditoryId }, interval),
+      findMaintenanceConflicts(app.prisma, { auditoryId }, interval)
+    ])
+    if (conflicts.length === 0 && maintenance.length === 0) {
+      return reply.code(400).send({ detail: 'Аудитория уже свободна в выбранный интервал' })
+    }
+
+    const watch = await app.prisma.roomWatch.create({
+      data: { userId: req.user!.id, auditoryId, startTime: startAt, endTime: endAt },
+      include: { auditory: true }
+    })
+    return reply.code(201).send(watch)
+  })
+
+  app.delete('/api/watches/:id', {
+    preHandler: app.authenticate,
+    schema: { params: IdParamsSchema, response: { 204: NoContentSchema, ...ProblemResponses } }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const { count } = await app.prisma.roomWatch.deleteMany({ where: { id, userId: req.user!.id } })
+    if (count === 0) {
+      return reply.code(404).send({ detail: 'Ожидание не найдено' })
+    }
+    return reply.code(204).send()
+  })
+
+  // --- CALENDAR FEEDS ---
+  // Ленты iCalendar для подписки из календарных приложений: брони за последние 90 дней и все будущие
+  const FEED_HISTORY_MS = 90 * 24 * 60 * 60 * 1000
+  const sendCalendar = async (reply: FastifyReply, viewer: SessionUser | null, where: Prisma.BookingWhereInput, name: string) => {
+    const bookings = await app.prisma.booking.findMany({
+      where: { ...where, status: { not: 'rejected' }, endTime: { gt: new Date(Date.now() - FEED_HISTORY_MS) } },
+      include: bookingInclude,
+      orderBy: { startTime: 'asc' }
+    })
+    return reply
+      .header('Content-Type', 'text/calendar; charset=utf-8')
+      .header('Content-Disposition', 'inline; filename="calendar.ics"')
+      .send(bookingsToICalendar(bookings.map(b => forViewer(viewer, b)), name))
+  }
+
+  const feedSchema = { querystring: CalendarFeedQuerySchema, response: { 200: CalendarFileSchema, ...ProblemResponses } }
+
+  app.get('/api/bookings.ics', { preHandler: app.authenticateFeed, schema: feedSchema }, async (req, reply) => sendCalendar(reply, req.user, {}, 'Бронирования'))
+
+  app.get('/api/auditories/:id/calendar.ics', {
+    preHandler: app.authenticateFeed,
+    schema: { ...feedSchema, params: IdParamsSchema }
+  }, async (req, reply) => {
+    const { id } = req.params
+    const auditory = await app.prisma.auditory.findUnique({ where: { id } })
+    if (!auditory) {
+      return reply.code(404).send({ detail: 'Аудитория не найдена' })
+    }
+    return sendCalendar(reply, req.user, { auditoryId: id }, auditory.name)
+  })
+
+  app.get('/api/users/:id/calendar.ics', {
+    preHandler: app.authenticateFeed,
+    schema: { ...feedSchema, params: IdParamsSchema }
+  }, async (req, reply) => {
+    const { id } = req.params
+    if (!canManageBooking(req.user!, { userId: id })) {
+      return reply.code(403).send({ detail: 'Недостаточно прав' })
+    }
+    const owner = await app.prisma.user.findUnique({ where: { id } })
+    if (!owner) {
+      return reply.code(404).send({ detail: 'Пользователь не найден' })
+    }
+    return sendCalendar(reply, req.user, { userId: id }, `Бронирования: ${owner.name || owner.email}`)
+  })
+
   return app
 }
\ No newline at end of file
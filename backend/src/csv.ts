@@ -0,0 +1,59 @@
+// CSV по RFC 4180. Разделитель при разборе определяется по заголовку: Excel в русской локали сохраняет через «;».
+
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const firstLine = source.slice(0, source.search(/\r?\n|$/))
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++ }
+      else if (ch === '"') quoted = false
+      else cell += ch
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(cell); cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++
+      row.push(cell); cell = ''
+      rows.push(row); row = []
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row) }
+  // Пустые строки (часто в конце файла) не считаются записями
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+// Апостроф, которым toCsv экранирует «формулы», при обратном импорте снимаем
+const unescapeCell = (value: string) => (/^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value)
+
+// Первая строка — заголовок; остальные превращаются в объекты по именам колонок (без учёта регистра)
+export function csvRecords(text: string) {
+  const [header = [], ...rows] = parseCsv(text)
+  const columns = header.map(h => h.trim().toLowerCase())
+  return {
+    columns,
+    records: rows.map(r => Object.fromEntries(columns.map((c, i) => [c, unescapeCell((r[i] ?? '').trim())])) as Record<string, string>)
+  }
+}
+
+// Текст, начинающийся с =, +, -, @ (или табуляции и CR), Excel считает формулой — экранируем апострофом.
+// Числа и даты не трогаем: отрицательное число формулой не является.
+const escapeCell = (value: unknown) => {
+  let s = value === null || value === undefined ? '' : value instanceof Date ? value.toISOString() : String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+// BOM в начале нужен Excel, чтобы он открыл файл в UTF-8
+export function toCsv(columns: string[], rows: unknown[][]) {
+  return '\uFEFF' + [columns, ...rows].map(r => r.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
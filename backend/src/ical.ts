@@ -0,0 +1,227 @@
+import { exceedsOccurrenceLimit, fromZonedWall, MAX_OCCURRENCES, type RecurrenceRule } from './recurrence.js'
+
+// Минимальная поддержка iCalendar (RFC 5545): выгрузка броней в VEVENT'ы и разбор VEVENT'ов расписания.
+
+export interface CalendarBooking {
+  id: string
+  startTime: Date
+  endTime: Date
+  auditory: { name: string } | null
+  device: { name: string } | null
+  user?: { name: string | null; email?: string } | null
+  status?: string
+}
+
+const PRODID = '-//Room Booking//RU'
+
+// Даты — всегда в UTC: 20261019T090000Z
+const formatDate = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+// TEXT-значения: обратный слэш, запятая, точка с запятой и перевод строки экранируются
+const escapeText = (s: string) =>
+  s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Строки длиннее 75 октетов переносятся: CRLF и пробел в начале продолжения
+function fold(line: string) {
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const ch of line) {
+    const bytes = Buffer.byteLength(ch)
+    if (size + bytes > 75) {
+      parts.push(current)
+      current = ' '
+      size = 1
+    }
+    current += ch
+    size += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n')
+}
+
+export function bookingsToICalendar(bookings: CalendarBooking[], calendarName: string, now = new Date()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ]
+  for (const b of bookings) {
+    const room = b.auditory?.name ?? ''
+    const device = b.device?.name ?? ''
+    const owner = b.user ? (b.user.name || b.user.email || null) : null
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${b.id}@room-booking`,
+      `DTSTAMP:${formatDate(now)}`,
+      `DTSTART:${formatDate(b.startTime)}`,
+      `DTEND:${formatDate(b.endTime)}`,
+      // Ожидающая подтверждения бронь показывается в календаре как предварительная
+      `STATUS:${b.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED'}`,
+      `SUMMARY:${escapeText(device ? `${room}: ${device}` : room)}`,
+      `LOCATION:${escapeText(room)}`,
+      `DESCRIPTION:${escapeText([device ? `Устройство: ${device}` : null, owner ? `Забронировал: ${owner}` : null].filter(Boolean).join('\n'))}`,
+      'END:VEVENT'
+    )
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(fold).join('\r\n') + '\r\n'
+}
+
+// --- Импорт ---
+
+export interface ImportedEvent {
+  uid: string | null
+  summary: string
+  location: string
+  start: Date
+  end: Date
+  rule: RecurrenceRule | null
+  // Причина, по которой событие нельзя импортировать
+  error: string | null
+}
+
+interface Property {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+const unescapeText = (s: string) =>
+  s.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch))
+
+// NAME;PARAM=VALUE;PARAM="quoted:value":VALUE — двоеточие внутри кавычек не разделяет имя и значение
+function parseProperty(line: string): Property | null {
+  let quoted = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) { colon = i; break }
+  }
+  if (colon < 0) return null
+  const [name = '', ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const p of rawParams) {
+    const eq = p.indexOf('=')
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+// DATE-TIME в UTC (…Z), с TZID или «плавающее» (время сервера). Даты без времени — события на весь день — не поддерживаем.
+function parseDateTime(value: string, tzid?: string): Date {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value)
+  if (!m) {
+    throw new Error(/^\d{8}$/.test(value) ? 'События на весь день не поддерживаются' : `Некорректная дата: ${value}`)
+  }
+  const [y, mo, d, h, mi, s] = m.slice(1, 7).map(Number) as [number, number, number, number, number, number]
+  const wall = Date.UTC(y, mo - 1, d, h, mi, s)
+  if (m[7]) return new Date(wall)
+  if (!tzid) return new Date(y, mo - 1, d, h, mi, s)
+  try {
+    return fromZonedWall(tzid, wall)
+  } catch {
+    throw new Error(`Неизвестный часовой пояс: ${tzid}`)
+  }
+}
+
+// DURATION вида P1W, PT1H30M — для событий без DTEND
+function parseDuration(value: string) {
+  const m = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value)
+  if (!m) throw new Error(`Некорректная длительность: ${value}`)
+  const [w = 0, d = 0, h = 0, mi = 0, s = 0] = m.slice(1).map(v => Number(v ?? 0))
+  return (((w * 7 + d) * 24 + h) * 60 + mi) * 60_000 + s * 1000
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const RULE_PARTS = ['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'BYDAY', 'WKST']
+
+// RRULE переводим в наш RecurrenceRule; BYDAY допускаем только совпадающий с днём первого занятия.
+// День недели берём из самого DTSTART (местная дата события), а не из UTC.
+function parseRule(value: string, dtstart: string, tzid?: string): RecurrenceRule {
+  const weekday = new Date(Date.UTC(+dtstart.slice(0, 4), +dtstart.slice(4, 6) - 1, +dtstart.slice(6, 8))).getUTCDay()
+  const parts: Record<string, string> = Object.fromEntries(value.split(';').map(p => p.split('=')))
+  const unsupported = () => new Error(`Правило повторения не поддерживается: ${value}`)
+  const { FREQ, INTERVAL, UNTIL, COUNT, BYDAY } = parts
+  if (Object.keys(parts).some(k => !RULE_PARTS.includes(k)) || (FREQ !== 'DAILY' && FREQ !== 'WEEKLY')) throw unsupported()
+  if (BYDAY && (FREQ !== 'WEEKLY' || BYDAY !== WEEKDAYS[weekday])) throw unsupported()
+  return {
+    freq: FREQ === 'DAILY' ? 'daily' : 'weekly',
+    interval: INTERVAL ? Number(INTERVAL) : 1,
+    // UNTIL-дата без времени включает весь этот день
+    ...(UNTIL ? { until: parseDateTime(/^\d{8}$/.test(UNTIL) ? `${UNTIL}T235959` : UNTIL, tzid) } : {}),
+    ...(COUNT ? { count: Number(COUNT) } : {}),
+    exceptions: [],
+    // Занятия повторяются в то же местное время; у «плавающего» DTSTART это пояс сервера, у UTC (…Z) — сам UTC
+    ...(dtstart.endsWith('Z') ? {} : { timeZone: tzid ?? Intl.DateTimeFormat().resolvedOptions().timeZone })
+  }
+}
+
+function toEvent(props: Property[]): ImportedEvent | null {
+  const get = (name: string) => props.find(p => p.name === name)
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null
+
+  const event: ImportedEvent = {
+    uid: get('UID')?.value ?? null,
+    summary: unescapeText(get('SUMMARY')?.value ?? ''),
+    location: unescapeText(get('LOCATION')?.value ?? '').trim(),
+    start: new Date(NaN),
+    end: new Date(NaN),
+    rule: null,
+    error: null
+  }
+  try {
+    const dtstart = get('DTSTART')
+    if (!dtstart) throw new Error('Нет DTSTART')
+    event.start = parseDateTime(dtstart.value, dtstart.params.TZID)
+    const dtend = get('DTEND')
+    const duration = get('DURATION')
+    if (dtend) event.end = parseDateTime(dtend.value, dtend.params.TZID)
+    else if (duration) event.end = new Date(event.start.getTime() + parseDuration(duration.value))
+    else throw new Error('Нет DTEND')
+    if (event.start >= event.end) throw new Error('Время начала должно быть раньше времени окончания')
+
+    const rrule = get('RRULE')
+    if (rrule) {
+      event.rule = parseRule(rrule.value, dtstart.value, dtstart.params.TZID)
+      event.rule.exceptions = props
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(v => parseDateTime(v, p.params.TZID)))
+      if (exceedsOccurrenceLimit(event, event.rule)) {
+        throw new Error(`Правило повторения даёт больше ${MAX_OCCURRENCES} занятий`)
+      }
+    }
+  } catch (e) {
+    event.error = (e as Error).message
+  }
+  return event
+}
+
+// Разбирает VEVENT'ы файла. Вложенные компоненты (VALARM) пропускаются, отменённые события — тоже.
+export function parseICalendar(text: string): ImportedEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const events: ImportedEvent[] = []
+  let props: Property[] | null = null
+  let depth = 0
+  for (const line of lines) {
+    const prop = parseProperty(line)
+    if (!prop) continue
+    if (prop.name === 'BEGIN') {
+      if (prop.value.toUpperCase() === 'VEVENT' && !props) { props = []; depth = 0 } else if (props) depth++
+      continue
+    }
+    if (prop.name === 'END') {
+      if (props && depth === 0 && prop.value.toUpperCase() === 'VEVENT') {
+        const event = toEvent(props)
+        if (event) events.push(event)
+        props = null
+      } else if (props) depth--
+      continue
+    }
+    if (props && depth === 0) props.push(prop)
+  }
+  return events
+}
@@ -0,0 +1,68 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import nodemailer from 'nodemailer'
+
+// Письмо в простом тексте. Отправитель (From) подставляет транспорт.
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+// Способ доставки писем. Реализации взаимозаменяемы: SMTP в проде, файл или консоль — локально.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+// Отправка через SMTP-сервер; url в формате nodemailer: smtp(s)://user:pass@host:port
+export function smtpTransport(url: string, from: string): MailTransport {
+  const transporter = nodemailer.createTransport(url)
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message })
+    }
+  }
+}
+
+// Каждое письмо сохраняется в каталог отдельным .eml-файлом — их можно открыть почтовым клиентом
+export function fileTransport(dir: string, from: string): MailTransport {
+  return {
+    async send({ to, subject, text }) {
+      await mkdir(dir, { recursive: true })
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.eml`
+      const headers = [
+        `From: ${from}`,
+        `To: ${to}`,
+        `Subject: =?UTF-8?B?${Buffer.from(subject).toString('base64')}?=`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8'
+      ]
+      await writeFile(join(dir, name), `${headers.join('\r\n')}\r\n\r\n${text.replace(/\r?\n/g, '\r\n')}\r\n`)
+    }
+  }
+}
+
+// Письма только пишутся в лог сервера
+export function consoleTransport(log: (message: string) => void): MailTransport {
+  return {
+    async send({ to, subject, text }) {
+      log(`mail to ${to}: ${subject}\n${text}`)
+    }
+  }
+}
+
+// Транспорт по переменным окружения: MAIL_TRANSPORT=smtp|file|console (по умолчанию console),
+// SMTP_URL для smtp, MAIL_DIR для file, MAIL_FROM — адрес отправителя.
+export function transportFromEnv(log: (message: string) => void): MailTransport {
+  const from = process.env.MAIL_FROM ?? 'Room Booking <no-reply@localhost>'
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp': {
+      if (!process.env.SMTP_URL) throw new Error('MAIL_TRANSPORT=smtp requires SMTP_URL')
+      return smtpTransport(process.env.SMTP_URL, from)
+    }
+    case 'file':
+      return fileTransport(process.env.MAIL_DIR ?? 'mail-outbox', from)
+    default:
+      return consoleTransport(log)
+  }
+}
@@ -0,0 +1,99 @@
+import type { MailMessage } from './mail.js'
+
+// Поля брони, нужные письму. Бронь без владельца (импорт расписания) писем не порождает.
+export interface MailBooking {
+  startTime: Date
+  endTime: Date
+  auditory: { name: string }
+  device?: { name: string } | null
+  user?: { name: string | null; email: string } | null
+}
+
+export type BookingMailKind = 'created' | 'pending' | 'approved' | 'rejected' | 'changed' | 'cancelled' | 'reminder' | 'released'
+// Письма, которые бывают и о целой серии
+export type SeriesMailKind = Exclude<BookingMailKind, 'reminder' | 'released'>
+
+// Время в письмах — в поясе MAIL_TIME_ZONE (по умолчанию пояс сервера)
+const formatter = (options: Intl.DateTimeFormatOptions) => new Intl.DateTimeFormat('ru-RU', {
+  ...options,
+  ...(process.env.MAIL_TIME_ZONE ? { timeZone: process.env.MAIL_TIME_ZONE } : {})
+})
+const dateTime = formatter({ dateStyle: 'short', timeStyle: 'short' })
+const date = formatter({ dateStyle: 'short' })
+const time = formatter({ timeStyle: 'short' })
+
+// Конец в тот же день показывается только временем
+const interval = (b: MailBooking) => {
+  const sameDay = date.format(b.startTime) === date.format(b.endTime)
+  return `${dateTime.format(b.startTime)} — ${(sameDay ? time : dateTime).format(b.endTime)}`
+}
+
+const SUBJECTS: Record<BookingMailKind, string> = {
+  created: 'Бронирование подтверждено',
+  pending: 'Бронирование ожидает подтверждения',
+  approved: 'Бронирование одобрено',
+  rejected: 'Бронирование отклонено',
+  changed: 'Бронирование изменено',
+  cancelled: 'Бронирование отменено',
+  reminder: 'Напоминание о бронировании',
+  released: 'Бронирование снято из-за неявки'
+}
+
+const LEADS: Record<BookingMailKind, string> = {
+  created: 'Ваше бронирование создано.',
+  pending: 'Аудитория бронируется только с подтверждения. Мы сообщим, когда заявку рассмотрят.',
+  approved: 'Ваша заявка на бронирование одобрена.',
+  rejected: 'Ваша заявка на бронирование отклонена.',
+  changed: 'Ваше бронирование изменено. Актуальные данные:',
+  cancelled: 'Ваше бронирование отменено.',
+  reminder: 'Напоминаем о предстоящем бронировании.',
+  released: 'В начале брони никто не отметился, поэтому аудитория освобождена для других.'
+}
+
+// В письме о серии перечисляются первые занятия, остальные — числом
+const MAX_LISTED = 10
+
+const letter = (user: { name: string | null; email: string }, subject: string, lines: string[]): MailMessage => ({
+  to: user.email,
+  subject,
+  text: [
+    `Здравствуйте, ${user.name || user.email}!`,
+    '',
+    ...lines,
+    '',
+    'Это письмо отправлено автоматически, отвечать на него не нужно.'
+  ].join('\n')
+})
+
+// reason — причина решения по заявке, если её указали
+const reasonLines = (reason?: string | null) => (reason ? ['', `Причина: ${reason}`] : [])
+
+export function bookingMail(kind: BookingMailKind, booking: MailBooking, reason?: string | null): MailMessage | null {
+  if (!booking.user) return null
+  return letter(booking.user, SUBJECTS[kind], [
+    LEADS[kind],
+    '',
+    `Аудитория: ${booking.auditory.name}`,
+    ...(booking.device ? [`Устройство: ${booking.device.name}`] : []),
+    `Время: ${interval(booking)}`,
+    ...reasonLines(reason)
+  ])
+}
+
+// Одно письмо на всю серию вместо письма на каждое занятие
+export function seriesMail(kind: SeriesMailKind, bookings: MailBooking[], reason?: string | null): MailMessage | null {
+  const first = bookings[0]
+  if (!first?.user) return null
+  const listed = bookings.slice(0, MAX_LISTED).map(b => `  ${interval(b)}`)
+  const rest = bookings.length - listed.length
+  return letter(first.user, `${SUBJECTS[kind]} (серия)`, [
+    `${LEADS[kind]} Занятий в серии: ${bookings.length}.`,
+    '',
+    `Аудитория: ${first.auditory.name}`,
+    ...(first.device ? [`Устройство: ${first.device.name}`] : []),
+    'Занятия:',
+    ...listed,
+    ...(rest > 0 ? [`  и ещё ${rest}`] : []),
+    ...reasonLines(reason)
+  ])
+}
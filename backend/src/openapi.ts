@@ -0,0 +1,14 @@
+import { writeFile } from 'node:fs/promises'
+import openapiTS, { astToString, type OpenAPI3 } from 'openapi-typescript'
+import { buildApp } from './app.js'
+
+// Генерация типов клиента фронтенда: то же OpenAPI-описание, что отдаёт /openapi.json, openapi-typescript
+// превращает в frontend/src/api/schema.gen.ts. Запускать после изменения схем маршрутов.
+const HEADER = '// Сгенерировано из OpenAPI-описания API: npm run openapi:client в backend. Не редактировать вручную.\n\n'
+
+const app = await buildApp()
+await app.ready()
+// rootTypes: модели из components.schemas экспортируются ещё и под своими именами (Booking, Device…)
+const ast = await openapiTS(app.swagger() as OpenAPI3, { rootTypes: true, rootTypesNoSchemaPrefix: true })
+await writeFile(new URL('../../frontend/src/api/schema.gen.ts', import.meta.url), HEADER + astToString(ast))
+await app.close()
@@ -0,0 +1,31 @@
+// Схемы с title (Booking, Device, Problem…) повторяются в описании API десятки раз: в ответах, телах и внутри
+// друг друга. В опубликованном описании они выносятся в components.schemas и заменяются ссылками $ref —
+// Scalar показывает их как модели, а openapi-typescript делает из них именованные типы фронтенда.
+
+interface OpenApiDocument {
+  paths?: unknown
+  components?: { schemas?: Record<string, unknown> }
+}
+
+export function namedSchemasToComponents<D extends OpenApiDocument>(doc: D): D {
+  const schemas: Record<string, unknown> = {}
+  const sources = new Map<string, string>()
+
+  // Обход снизу вверх: вложенные именованные схемы заменяются ссылками раньше, чем выносится внешняя
+  const visit = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(visit)
+    if (typeof node !== 'object' || node === null) return node
+    const schema = Object.fromEntries(Object.entries(node).map(([key, value]) => [key, visit(value)]))
+    if (typeof schema.title !== 'string' || schema.type !== 'object') return schema
+    // Одинаковый title у разных схем — ошибка описания: один из типов молча потерялся бы
+    const source = JSON.stringify(schema)
+    const known = sources.get(schema.title)
+    if (known !== undefined && known !== source) throw new Error(`Разные схемы с одним title: ${schema.title}`)
+    sources.set(schema.title, source)
+    schemas[schema.title] = schema
+    return { $ref: `#/components/schemas/${schema.title}` }
+  }
+
+  const paths = visit(doc.paths)
+  return { ...doc, paths, components: { ...doc.components, schemas: { ...doc.components?.schemas, ...schemas } } }
+}
@@ -0,0 +1,149 @@
+import { Prisma, type BookingStatus, type PrismaClient } from './generated/prisma/client.js'
+
+// Интервал бронирования. Концы полуоткрытые: [start, end), поэтому брони «встык» не конфликтуют.
+export interface Interval {
+  start: Date
+  end: Date
+}
+
+// Ресурсы, которые занимает бронь: аудитория и устройство проверяются на пересечения независимо.
+// Устройства может не быть — например, у броней из импортированного расписания.
+export interface BookingResources {
+  auditoryId?: string
+  deviceId?: string | null
+}
+
+// Статусы, в которых бронь занимает ресурсы. Ожидающие подтверждения и отклонённые — не занимают.
+// Тот же список задаёт условие ограничений-исключений в БД (миграция booking_no_overlap).
+export const BLOCKING_STATUSES: BookingStatus[] = ['booked', 'checked_in', 'no_show']
+
+// Ограничения-исключения из миграции booking_no_overlap
+const OVERLAP_CONSTRAINTS = ['Booking_auditory_no_overlap', 'Booking_device_no_overlap']
+
+// Запись отклонена ограничением-исключением (SQLSTATE 23P01): интервал занял параллельный запрос
+// между проверкой и записью. Если Prisma передаёт код драйвера в meta, смотрим на него. Движок Prisma
+// своего кода для 23P01 не заводит и отдаёт ошибку PostgreSQL как неизвестную — тогда требуем
+// и код 23P01, и имя одного из наших ограничений.
+export function isOverlapViolation(err: unknown) {
+  if (err instanceof Prisma.PrismaClientKnownRequestError) return err.meta?.code === '23P01'
+  if (!(err instanceof Prisma.PrismaClientUnknownRequestError)) return false
+  return /\bcode: \\?"23P01\\?"/.test(err.message) && OVERLAP_CONSTRAINTS.some(name => err.message.includes(name))
+}
+
+// Два интервала пересекаются, если каждый начинается раньше, чем заканчивается другой.
+export function overlaps(a: Interval, b: Interval) {
+  return a.start < b.end && a.end > b.start
+}
+
+// Ищет бронирования, пересекающиеся с интервалом (start < otherEnd && end > otherStart)
+// и занимающие ту же аудиторию или то же устройство. excludeId исключает саму редактируемую бронь.
+export function findConflicts(
+  prisma: PrismaClient,
+  { auditoryId, deviceId }: BookingResources,
+  { start, end }: Interval,
+  excludeId?: string
+) {
+  const resources = []
+  if (auditoryId) resources.push({ auditoryId })
+  if (deviceId) resources.push({ deviceId })
+
+  return prisma.booking.findMany({
+    where: {
+      OR: resources,
+      status: { in: BLOCKING_STATUSES },
+      startTime: { lt: end },
+      endTime: { gt: start },
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    },
+    include: { device: true, auditory: true },
+    orderBy: { startTime: 'asc' }
+  })
+}
+
+// Периоды обслуживания аудитории или устройства, пересекающиеся с интервалом.
+export function findMaintenanceConflicts(
+  prisma: PrismaClient,
+  { auditoryId, deviceId }: BookingResources,
+  { start, end }: Interval
+) {
+  const resources = []
+  if (auditoryId) resources.push({ auditoryId })
+  if (deviceId) resources.push({ deviceId })
+
+  return prisma.maintenance.findMany({
+    where: { OR: resources, startTime: { lt: end }, endTime: { gt: start } },
+    include: { device: true, auditory: true },
+    orderBy: { startTime: 'asc' }
+  })
+}
+
+// Проверка сразу нескольких интервалов (занятия серии) одним запросом к БД.
+// Возвращает по каждому интервалу списки пересекающихся с ним броней и периодов обслуживания.
+export async function findConflictsForEach(
+  prisma: PrismaClient,
+  resources: BookingResources,
+  intervals: Interval[],
+  excludeIds: string[] = []
+) {
+  if (intervals.length === 0) return []
+  const span = {
+    start: new Date(Math.min(...intervals.map(i => i.start.getTime()))),
+    end: new Date(Math.max(...intervals.map(i => i.end.getTime())))
+  }
+  const [bookings, maintenance] = await Promise.all([
+    findConflicts(prisma, resources, span),
+    findMaintenanceConflicts(prisma, resources, span)
+  ])
+  const candidates = bookings.filter(b => !excludeIds.includes(b.id))
+  return intervals.map(interval => ({
+    ...interval,
+    conflicts: candidates.filter(b => overlaps(interval, { start: b.startTime, end: b.endTime })),
+    maintenance: maintenance.filter(m => overlaps(interval, { start: m.startTime, end: m.endTime }))
+  }))
+}
+
+// Текст для 409: называет, что именно занято — аудитория, устройство или оба.
+export function conflictDetail(
+  conflicts: { auditoryId: string; deviceId: string | null }[],
+  { auditoryId, deviceId }: BookingResources
+) {
+  const auditoryBusy = conflicts.some(c => c.auditoryId === auditoryId)
+  const deviceBusy = !!deviceId && conflicts.some(c => c.deviceId === deviceId)
+  if (auditoryBusy && deviceBusy) return 'Аудитория и устройство заняты в выбранный интервал'
+  if (deviceBusy) return 'Устройство занято в выбранный интервал'
+  return 'Аудитория занята в выбранный интервал'
+}
+
+// Текст для 409 при пересечении с обслуживанием — с причиной первого периода.
+export function maintenanceDetail(maintenance: { auditoryId: string | null; reason: string }[]) {
+  const first = maintenance[0]
+  const target = first?.auditoryId ? 'Аудитория' : 'Устройство'
+  return `${target} на обслуживании в выбранный интервал: ${first?.reason ?? ''}`
+}
+
+// Склеивает занятые интервалы внутри окна и возвращает их вместе с оставшимися свободными промежутками.
+export function splitAvailability(window: Interval, taken: Interval[]) {
+  const busy: Interval[] = []
+  const sorted = [...taken].sort((a, b) => a.start.getTime() - b.start.getTime())
+  for (const t of sorted) {
+    const start = t.start < window.start ? window.start : t.start
+    const end = t.end > window.end ? window.end : t.end
+    if (start >= end) continue
+    const last = busy[busy.length - 1]
+    if (last && start <= last.end) {
+      if (end > last.end) last.end = end
+    } else {
+      busy.push({ start, end })
+    }
+  }
+
+  const free: Interval[] = []
+  let cursor = window.start
+  for (const b of busy) {
+    if (b.start > cursor) free.push({ start: cursor, end: b.start })
+    cursor = b.end
+  }
+  if (cursor < window.end) free.push({ start: cursor, end: window.end })
+
+  return { busy, free }
+}
@@ -0,0 +1,11 @@
+// Постраничная выдача списков: { items, page, pageSize, total }, как у /api/rooms.
+export const DEFAULT_PAGE_SIZE = 50
+
+export function pageArgs(query: { page?: number; pageSize?: number }, defaultSize = DEFAULT_PAGE_SIZE) {
+  const page = query.page ?? 1
+  const pageSize = query.pageSize ?? defaultSize
+  return { page, pageSize, skip: (page - 1) * pageSize, take: pageSize }
+}
+
+// Поиск подстроки без учёта регистра для Prisma-фильтров по тексту
+export const containsText = (q: string) => ({ contains: q, mode: 'insensitive' as const })
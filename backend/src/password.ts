@@ -0,0 +1,21 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+const KEY_LENGTH = 64
+
+// Хэш хранится в виде "salt:hash" (hex), соль своя для каждого пользователя.
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `${salt.toString('hex')}:${hash.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [saltHex, hashHex] = stored.split(':')
+  if (!saltHex || !hashHex) return false
+  const expected = Buffer.from(hashHex, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length)
+  // Сравнение за постоянное время, чтобы не выдавать совпадение префикса по таймингу
+  return timingSafeEqual(expected, actual)
+}
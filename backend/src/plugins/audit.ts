@@ -0,0 +1,48 @@
+import fp from 'fastify-plugin'
+import type { AuditAction, AuditEntity, Prisma } from '../generated/prisma/client.js'
+import type { SessionUser } from './auth.js'
+
+// Одно изменение записи: before нет у созданной, after — у удалённой.
+export interface AuditChange {
+  entity: AuditEntity
+  entityId: string
+  action: AuditAction
+  before?: object | null
+  after?: object | null
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    // Дописывает изменения в журнал. actor = null — изменение сделала система, а не пользователь.
+    // Ошибки только логируются: запись в БД уже прошла, и отвечать клиенту ошибкой поздно.
+    audit: (actor: SessionUser | null, changes: AuditChange[]) => Promise<void>
+  }
+}
+
+// В журнал попадают собственные поля записи и списки значений (коды оборудования аудитории);
+// связанные объекты, которые маршруты подгружают для ответа (аудитория брони, владелец), не копируются.
+const ownFields = (row: object): Prisma.InputJsonObject => JSON.parse(JSON.stringify(Object.fromEntries(
+  Object.entries(row).filter(([, v]) =>
+    v === null || v instanceof Date || typeof v !== 'object' || (Array.isArray(v) && v.every(x => typeof x !== 'object')))
+)))
+
+export default fp(async (app) => {
+  app.decorate('audit', async (actor: SessionUser | null, changes: AuditChange[]) => {
+    if (changes.length === 0) return
+    try {
+      await app.prisma.auditLog.createMany({
+        data: changes.map(c => ({
+          entity: c.entity,
+          entityId: c.entityId,
+          action: c.action,
+          actorId: actor?.id ?? null,
+          actorName: actor ? actor.name || actor.email : null,
+          ...(c.before ? { before: ownFields(c.before) } : {}),
+          ...(c.after ? { after: ownFields(c.after) } : {})
+        }))
+      })
+    } catch (err) {
+      app.log.error(err, 'audit log failed')
+    }
+  })
+})
@@ -0,0 +1,143 @@
+import fp from 'fastify-plugin'
+import cookie from '@fastify/cookie'
+import { createHash, randomBytes } from 'node:crypto'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import type { Role } from '../generated/prisma/enums.js'
+
+export const SESSION_COOKIE = 'rb_session'
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Адреса фронтенда на других доменах (CORS_ORIGIN через запятую), которым разрешены запросы с cookie сессии.
+// Пусто — фронтенд отдаётся с того же адреса, что и API (nginx), и чужие сайты к API с cookie не допускаются.
+export const CORS_ORIGINS = (process.env.CORS_ORIGIN ?? '').split(',').map(o => o.trim()).filter(Boolean)
+
+// Пользователь текущего запроса — только публичные поля, без хэша пароля.
+export interface SessionUser {
+  id: string
+  email: string
+  name: string | null
+  role: Role
+}
+
+// Менеджеры и администраторы управляют любыми бронями, остальные — только своими.
+export function canManageBooking(user: SessionUser, booking: { userId: string | null }) {
+  return user.role === 'admin' || user.role === 'manager' || booking.userId === user.id
+}
+
+// Кто подтверждает брони аудиторий с requiresApproval; их собственные брони подтверждения не ждут
+export function canApproveBookings(user: SessionUser) {
+  return user.role === 'admin' || user.role === 'manager'
+}
+
+// Журнал изменений целиком видят администраторы и менеджеры; остальные — только историю своих броней
+export function canReadAudit(user: SessionUser) {
+  return user.role === 'admin' || user.role === 'manager'
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    // preHandler для маршрутов, которые требуют входа: отвечает 401, если сессии нет.
+    authenticate: (req: FastifyRequest, reply: FastifyReply) => Promise<void>
+    // То же, но дополнительно требует одну из ролей: 401 без сессии, 403 при недостаточных правах.
+    requireRole: (...roles: Role[]) => (req: FastifyRequest, reply: FastifyReply) => Promise<void>
+    // Для календарных лент: сессия или секрет подписки в ?token=, потому что календари не шлют cookie.
+    authenticateFeed: (req: FastifyRequest, reply: FastifyReply) => Promise<void>
+    // Выпускает новый секрет подписки; прежние ссылки на ленты перестают работать.
+    issueCalendarToken: (userId: string) => Promise<string>
+    startSession: (reply: FastifyReply, userId: string) => Promise<void>
+    endSession: (req: FastifyRequest, reply: FastifyReply) => Promise<void>
+  }
+  interface FastifyRequest {
+    user: SessionUser | null
+  }
+}
+
+// В БД храним только sha256 от токена: утечка таблицы Session не даёт готовых cookie.
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+// Сессии хранятся в таблице Session, а клиенту уходит подписанная httpOnly-cookie со случайным токеном.
+export default fp(async (app) => {
+  const secret = process.env.SESSION_SECRET
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is required in production')
+  }
+  await app.register(cookie, { secret: secret ?? 'dev-session-secret' })
+
+  // Фронтенд на другом домене (CORS_ORIGIN) получает cookie только с SameSite=None; Secure.
+  // Когда фронтенд и API на одном адресе, остаётся SameSite=Lax: чужие сайты не шлют её в фоновых запросах.
+  const crossSite = process.env.NODE_ENV === 'production' && CORS_ORIGINS.length > 0
+  const cookieOptions = {
+    path: '/',
+    httpOnly: true,
+    signed: true,
+    secure: crossSite,
+    sameSite: crossSite ? 'none' as const : 'lax' as const
+  }
+
+  app.decorateRequest('user', null)
+
+  app.addHook('onRequest', async (req) => {
+    const raw = req.cookies[SESSION_COOKIE]
+    if (!raw) return
+    const { valid, value } = req.unsignCookie(raw)
+    if (!valid || !value) return
+
+    const session = await app.prisma.session.findUnique({
+      where: { id: hashToken(value) },
+      include: { user: { select: { id: true, email: true, name: true, role: true } } }
+    })
+    if (session && session.expiresAt > new Date()) {
+      req.user = session.user
+    }
+  })
+
+  app.decorate('authenticate', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!req.user) {
+      return reply.code(401).send({ detail: 'Требуется вход в систему' })
+    }
+  })
+
+  app.decorate('requireRole', (...roles: Role[]) => async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!req.user) {
+      return reply.code(401).send({ detail: 'Требуется вход в систему' })
+    }
+    if (!roles.includes(req.user.role)) {
+      return reply.code(403).send({ detail: 'Недостаточно прав' })
+    }
+  })
+
+  app.decorate('authenticateFeed', async (req: FastifyRequest, reply: FastifyReply) => {
+    const { token } = req.query as { token?: string }
+    if (!req.user && token) {
+      req.user = await app.prisma.user.findUnique({
+        where: { calendarTokenHash: hashToken(token) },
+        select: { id: true, email: true, name: true, role: true }
+      })
+    }
+    if (!req.user) {
+      return reply.code(401).send({ detail: 'Требуется вход в систему' })
+    }
+  })
+
+  app.decorate('issueCalendarToken', async (userId: string) => {
+    const token = randomBytes(32).toString('hex')
+    await app.prisma.user.update({ where: { id: userId }, data: { calendarTokenHash: hashToken(token) } })
+    return token
+  })
+
+  app.decorate('startSession', async (reply: FastifyReply, userId: string) => {
+    const token = randomBytes(32).toString('hex')
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+    await app.prisma.session.create({ data: { id: hashToken(token), userId, expiresAt } })
+    reply.setCookie(SESSION_COOKIE, token, { ...cookieOptions, expires: expiresAt })
+  })
+
+  app.decorate('endSession', async (req: FastifyRequest, reply: FastifyReply) => {
+    const raw = req.cookies[SESSION_COOKIE]
+    const { valid, value } = raw ? req.unsignCookie(raw) : { valid: false, value: null }
+    if (valid && value) {
+      await app.prisma.session.deleteMany({ where: { id: hashToken(value) } })
+    }
+    reply.clearCookie(SESSION_COOKIE, cookieOptions)
+  })
+})
@@ -0,0 +1,62 @@
+import fp from 'fastify-plugin'
+import { bookingMail } from '../mailTemplates.js'
+
+// Сколько минут после начала брони можно отметиться (CHECK_IN_WINDOW_MINUTES); позже бронь снимается
+export const CHECK_IN_WINDOW_MINUTES = Number(process.env.CHECK_IN_WINDOW_MINUTES ?? 15)
+export const CHECK_IN_WINDOW_MS = CHECK_IN_WINDOW_MINUTES * 60 * 1000
+const SCAN_INTERVAL_MS = 60 * 1000
+
+// Окно отсчитывается от начала брони, а если заявку одобрили уже после начала — от момента одобрения:
+// иначе поздно одобренная бронь снималась бы как неявка, не дав владельцу отметиться
+export function checkInDeadline(booking: { startTime: Date; decidedAt: Date | null }) {
+  const opened = Math.max(booking.startTime.getTime(), booking.decidedAt?.getTime() ?? 0)
+  return new Date(opened + CHECK_IN_WINDOW_MS)
+}
+
+// Фоновое снятие неявок: бронь, в которой никто не отметился за окно, укорачивается до текущего
+// момента и получает статус no_show. Остаток интервала освобождается для других.
+export default fp(async (app) => {
+  app.schedule('no-show release', SCAN_INTERVAL_MS, async () => {
+    const now = new Date()
+    const windowStart = new Date(now.getTime() - CHECK_IN_WINDOW_MS)
+    const missed = await app.prisma.booking.findMany({
+      where: {
+        status: 'booked',
+        checkInRequired: true,
+        startTime: { lte: windowStart },
+        OR: [{ decidedAt: null }, { decidedAt: { lte: windowStart } }],
+        endTime: { gt: now }
+      },
+      include: { auditory: true, device: true, user: { select: { name: true, email: true } } }
+    })
+
+    const released: typeof missed = []
+    for (const booking of missed) {
+      // Условие на статус повторяется: отметка могла прийти между выборкой и обновлением
+      const { count } = await app.prisma.booking.updateMany({
+        where: { id: booking.id, status: 'booked' },
+        data: { status: 'no_show', endTime: now }
+      })
+      if (count > 0) released.push(booking)
+    }
+    if (released.length === 0) return
+
+    app.broadcast({ entity: 'booking', action: 'bulk' })
+    await app.audit(null, released.map(b => ({
+      entity: 'booking',
+      entityId: b.id,
+      action: 'updated',
+      before: b,
+      after: { ...b, status: 'no_show', endTime: now }
+    })))
+    for (const booking of released) {
+      if (booking.userId) {
+        await app.notify(booking.userId, 'no_show',
+          `Бронирование аудитории «${booking.auditory.name}» снято: никто не отметился в течение ${CHECK_IN_WINDOW_MINUTES} минут`,
+          { bookingId: booking.id, auditoryId: booking.auditoryId, startTime: booking.startTime, endTime: booking.endTime })
+      }
+      app.sendMail(bookingMail('released', booking))
+    }
+    await app.notifyRoomsFreed(released.map(b => ({ auditoryId: b.auditoryId, startTime: now, endTime: b.endTime })))
+  })
+})
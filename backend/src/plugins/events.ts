@@ -0,0 +1,37 @@
+import fp from 'fastify-plugin'
+import websocket from '@fastify/websocket'
+import type { WebSocket } from 'ws'
+
+// Событие об изменении данных. bulk — массовое изменение (серия, импорт): клиенту проще перечитать список.
+export interface LiveEvent {
+  entity: 'booking' | 'device' | 'auditory' | 'maintenance'
+  action: 'created' | 'updated' | 'deleted' | 'bulk'
+  id?: string
+  data?: unknown
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    // Рассылает событие всем подключённым к /api/events клиентам.
+    broadcast: (event: LiveEvent) => void
+  }
+}
+
+// Канал push-уведомлений: клиенты держат WebSocket на /api/events и получают события в JSON.
+// Сами данные публичные (как GET-списки), поэтому вход для подписки не требуется.
+export default fp(async (app) => {
+  await app.register(websocket)
+  const clients = new Set<WebSocket>()
+
+  app.get('/api/events', { websocket: true }, (socket) => {
+    clients.add(socket)
+    socket.on('close', () => clients.delete(socket))
+  })
+
+  app.decorate('broadcast', (event: LiveEvent) => {
+    const message = JSON.stringify(event)
+    for (const socket of clients) {
+      if (socket.readyState === socket.OPEN) socket.send(message)
+    }
+  })
+})
@@ -0,0 +1,44 @@
+import fp from 'fastify-plugin'
+import { transportFromEnv, type MailMessage } from '../mail.js'
+import { bookingMail } from '../mailTemplates.js'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    // Ставит письмо в отправку, не задерживая ответ. null (нет получателя) пропускается.
+    sendMail: (message: MailMessage | null) => void
+  }
+}
+
+// За сколько минут до начала брони напоминать письмом (MAIL_REMINDER_MINUTES) и как часто это проверять
+const REMINDER_MS = Number(process.env.MAIL_REMINDER_MINUTES ?? 30) * 60 * 1000
+const SCAN_INTERVAL_MS = 60 * 1000
+
+export default fp(async (app) => {
+  const transport = transportFromEnv(message => app.log.info(message))
+
+  app.decorate('sendMail', (message: MailMessage | null) => {
+    if (!message) return
+    transport.send(message).catch(err => app.log.error(err, `mail to ${message.to} failed`))
+  })
+
+  // Напоминание уходит один раз: отметка reminderSentAt сбрасывается, только если бронь перенесли
+  app.schedule('mail reminders', SCAN_INTERVAL_MS, async () => {
+    const now = new Date()
+    const upcoming = await app.prisma.booking.findMany({
+      where: {
+        reminderSentAt: null,
+        // Заявкам, ожидающим подтверждения, не напоминаем
+        status: 'booked',
+        userId: { not: null },
+        startTime: { gt: now, lte: new Date(now.getTime() + REMINDER_MS) }
+      },
+      include: { auditory: true, device: true, user: { select: { name: true, email: true } } }
+    })
+    if (upcoming.length === 0) return
+    await app.prisma.booking.updateMany({
+      where: { id: { in: upcoming.map(b => b.id) } },
+      data: { reminderSentAt: now }
+    })
+    for (const booking of upcoming) app.sendMail(bookingMail('reminder', booking))
+  })
+})
@@ -0,0 +1,124 @@
+import fp from 'fastify-plugin'
+import type { NotificationKind } from '../generated/prisma/client.js'
+import { findConflicts, findMaintenanceConflicts } from '../overlap.js'
+
+// Необязательные ссылки уведомления: на какую бронь, аудиторию и какой интервал оно указывает.
+export interface NotificationRefs {
+  bookingId?: string
+  auditoryId?: string
+  startTime?: Date
+  endTime?: Date
+}
+
+// Освободившийся интервал аудитории — отменённая, перенесённая бронь или снятое обслуживание.
+export interface FreedSlot {
+  auditoryId: string
+  startTime: Date
+  endTime: Date
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    // Создаёт уведомление пользователю. Ошибки только логируются: уведомление не должно ломать сам запрос.
+    notify: (userId: string, kind: NotificationKind, message: string, refs?: NotificationRefs) => Promise<void>
+    // Проверяет ожидания аудиторий, задетые освободившимися интервалами, и уведомляет ожидающих.
+    notifyRoomsFreed: (freed: FreedSlot[]) => Promise<void>
+  }
+}
+
+// За сколько до конца брони напоминать о её окончании и как часто это проверять
+const ENDING_SOON_MS = 15 * 60 * 1000
+const SCAN_INTERVAL_MS = 60 * 1000
+
+export default fp(async (app) => {
+  app.decorate('notify', async (userId: string, kind: NotificationKind, message: string, refs: NotificationRefs = {}) => {
+    try {
+      await app.prisma.notification.create({ data: { userId, kind, message, ...refs } })
+    } catch (err) {
+      app.log.error(err, 'notification failed')
+    }
+  })
+
+  app.decorate('notifyRoomsFreed', async (freed: FreedSlot[]) => {
+    try {
+      // Интервалы одной аудитории схлопываются в общий охват: ожидание всё равно проверяется целиком
+      const spans = new Map<string, { start: Date; end: Date }>()
+      for (const f of freed) {
+        const span = spans.get(f.auditoryId)
+        if (!span) spans.set(f.auditoryId, { start: f.startTime, end: f.endTime })
+        else {
+          if (f.startTime < span.start) span.start = f.startTime
+          if (f.endTime > span.end) span.end = f.endTime
+        }
+      }
+
+      for (const [auditoryId, { start, end }] of spans) {
+        const watches = await app.prisma.roomWatch.findMany({
+          where: { auditoryId, startTime: { lt: end }, endTime: { gt: start } },
+          include: { auditory: true }
+        })
+        for (const watch of watches) {
+          const interval = { start: watch.startTime, end: watch.endTime }
+          const [conflicts, maintenance] = await Promise.all([
+            findConflicts(app.prisma, { auditoryId }, interval),
+            findMaintenanceConflicts(app.prisma, { auditoryId }, interval)
+          ])
+          if (conflicts.length > 0 || maintenance.length > 0) continue
+
+          await app.prisma.$transaction([
+            app.prisma.notification.create({
+              data: {
+                userId: watch.userId,
+                kind: 'room_free',
+                message: `Аудитория «${watch.auditory.name}» освободилась на ожидаемое время`,
+                auditoryId,
+                startTime: watch.startTime,
+                endTime: watch.endTime
+              }
+            }),
+            app.prisma.roomWatch.delete({ where: { id: watch.id } })
+          ])
+        }
+      }
+    } catch (err) {
+      app.log.error(err, 'room watch check failed')
+    }
+  })
+
+  // Раз в минуту: напоминания о скором окончании броней (по одному на бронь) и уборка прошедших ожиданий
+  const scan = async () => {
+    const now = new Date()
+    const ending = await app.prisma.booking.findMany({
+      where: {
+        userId: { not: null },
+        status: { in: ['booked', 'checked_in'] },
+        endTime: { gt: now, lte: new Date(now.getTime() + ENDING_SOON_MS) }
+      },
+      include: { auditory: true }
+    })
+    if (ending.length > 0) {
+      const notified = await app.prisma.notification.findMany({
+        where: { kind: 'ending_soon', bookingId: { in: ending.map(b => b.id) } },
+        select: { bookingId: true }
+      })
+      const skip = new Set(notified.map(n => n.bookingId))
+      const fresh = ending.filter(b => !skip.has(b.id))
+      if (fresh.length > 0) {
+        await app.prisma.notification.createMany({
+          data: fresh.map(b => ({
+            userId: b.userId!,
+            kind: 'ending_soon' as const,
+            message: `Бронирование аудитории «${b.auditory.name}» закончится в течение 15 минут`,
+            bookingId: b.id,
+            auditoryId: b.auditoryId,
+            startTime: b.startTime,
+            endTime: b.endTime
+          }))
+        })
+      }
+    }
+    await app.prisma.roomWatch.deleteMany({ where: { endTime: { lte: now } } })
+  }
+
+  app.schedule('notification scan', SCAN_INTERVAL_MS, scan)
+})
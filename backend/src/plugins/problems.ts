@@ -0,0 +1,46 @@
+import fp from 'fastify-plugin'
+import type { FastifyError } from 'fastify'
+import { PROBLEM_CONTENT_TYPE, problem, validationProblem, isProblem } from '../problem.js'
+import { isOverlapViolation } from '../overlap.js'
+
+// Известные ошибки Prisma, которые означают ошибку клиента, а не сбой сервера:
+// P2025 — записи с таким id нет, P2003 — на запись ссылаются другие, P2002 — нарушена уникальность
+const PRISMA_ERRORS: Record<string, [number, string]> = {
+  P2025: [404, 'Запись не найдена'],
+  P2003: [409, 'Запись связана с другими данными'],
+  P2002: [409, 'Запись с такими данными уже существует']
+}
+
+// Единый формат ошибок API — RFC 9457. Маршруты по-прежнему отвечают reply.code(4xx).send({ detail, ... }):
+// такой ответ здесь дополняется полями type, title и status, а брошенные исключения переводятся
+// в тот же формат обработчиком ошибок.
+export default fp(async (app) => {
+  app.addHook('preSerialization', async (req, reply, payload) => {
+    if (reply.statusCode < 400 || typeof payload !== 'object' || payload === null || Array.isArray(payload)) return payload
+    reply.type(PROBLEM_CONTENT_TYPE)
+    if (isProblem(payload)) return { ...payload, instance: req.url }
+    const { detail, ...extensions } = payload as { detail?: string }
+    return { ...problem(reply.statusCode, detail, extensions), instance: req.url }
+  })
+
+  app.setErrorHandler((err: FastifyError, req, reply) => {
+    if (err.validation) {
+      return reply.code(400).send(validationProblem(err.validationContext ?? 'body', err.validation))
+    }
+    const prismaError = PRISMA_ERRORS[err.code]
+    if (prismaError) {
+      return reply.code(prismaError[0]).send(problem(prismaError[0], prismaError[1]))
+    }
+    if (isOverlapViolation(err)) {
+      return reply.code(409).send(problem(409, 'Интервал уже занят другой бронью'))
+    }
+    // Ошибки самого Fastify (пустое тело, неизвестный Content-Type, слишком большой запрос) несут свой статус
+    if (err.statusCode && err.statusCode >= 400 && err.statusCode < 500) {
+      return reply.code(err.statusCode).send(problem(err.statusCode, err.message))
+    }
+    req.log.error(err)
+    return reply.code(500).send(problem(500))
+  })
+
+  app.setNotFoundHandler((req, reply) => reply.code(404).send(problem(404, `Маршрут ${req.method} ${req.url} не найден`)))
+})
@@ -0,0 +1,33 @@
+import fp from 'fastify-plugin'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    // Периодическая фоновая задача внутри процесса сервера. Ошибки задачи только логируются.
+    schedule: (name: string, everyMs: number, task: () => Promise<void>) => void
+  }
+}
+
+// Простой планировщик на setInterval: задачи идут в том же процессе, что и HTTP-сервер,
+// и останавливаются вместе с ним (onClose). Новый проход не начинается, пока не закончился предыдущий.
+export default fp(async (app) => {
+  const timers = new Set<ReturnType<typeof setInterval>>()
+
+  app.decorate('schedule', (name: string, everyMs: number, task: () => Promise<void>) => {
+    let running = false
+    const timer = setInterval(() => {
+      if (running) return
+      running = true
+      task()
+        .catch(err => app.log.error(err, `${name} failed`))
+        .finally(() => { running = false })
+    }, everyMs)
+    // Таймер не держит процесс: при остановке сервера его снимает onClose
+    timer.unref()
+    timers.add(timer)
+  })
+
+  app.addHook('onClose', async () => {
+    for (const timer of timers) clearInterval(timer)
+    timers.clear()
+  })
+})
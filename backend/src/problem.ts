@@ -0,0 +1,59 @@
+import type { FastifySchemaValidationError } from 'fastify'
+
+// Ошибки API в формате RFC 9457 (application/problem+json).
+// Кроме стандартных полей ответ может нести расширения: errors — ошибки по полям запроса,
+// conflicts/occurrences — пересекающиеся брони, upcoming — будущие брони архивируемой записи и т. п.
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json; charset=utf-8'
+
+// Ошибка в конкретном поле: pointer — JSON Pointer от корня запроса (/body/email, /querystring/page)
+export interface FieldError {
+  pointer: string
+  detail: string
+}
+
+export interface Problem {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  errors?: FieldError[]
+  [extension: string]: unknown
+}
+
+// type — относительный URI вида /problems/<вид>; для статусов без своего вида — about:blank, как велит RFC
+const KINDS: Record<number, { type: string; title: string }> = {
+  400: { type: '/problems/bad-request', title: 'Некорректный запрос' },
+  401: { type: '/problems/unauthorized', title: 'Требуется вход в систему' },
+  403: { type: '/problems/forbidden', title: 'Недостаточно прав' },
+  404: { type: '/problems/not-found', title: 'Не найдено' },
+  409: { type: '/problems/conflict', title: 'Конфликт с текущим состоянием' },
+  429: { type: '/problems/too-many-requests', title: 'Слишком много запросов' },
+  500: { type: '/problems/internal', title: 'Внутренняя ошибка сервера' }
+}
+const VALIDATION = { type: '/problems/validation', title: 'Ошибка валидации' }
+
+export function problem(status: number, detail?: string, extensions: Record<string, unknown> = {}): Problem {
+  const kind = KINDS[status] ?? { type: 'about:blank', title: `HTTP ${status}` }
+  return { ...extensions, ...kind, status, ...(detail ? { detail } : {}) }
+}
+
+// Ошибки схемы запроса — по полям. У ошибки required путь указывает на объект, поэтому имя
+// недостающего поля дописывается к нему.
+export function validationProblem(context: string, errors: FastifySchemaValidationError[]): Problem {
+  const fieldErrors = errors.map(e => {
+    const missing = typeof e.params?.missingProperty === 'string' ? `/${e.params.missingProperty}` : ''
+    return { pointer: `/${context}${e.instancePath}${missing}`, detail: e.message ?? 'недопустимое значение' }
+  })
+  return {
+    ...VALIDATION,
+    status: 400,
+    detail: fieldErrors.map(e => `${e.pointer.split('/').slice(2).join('.') || context}: ${e.detail}`).join('; '),
+    errors: fieldErrors
+  }
+}
+
+// Ответ уже в формате RFC 9457 — его не нужно заворачивать повторно
+export function isProblem(payload: unknown): payload is Problem {
+  return typeof payload === 'object' && payload !== null && 'type' in payload && 'status' in payload
+}
@@ -0,0 +1,65 @@
+import type { Interval } from './overlap.js'
+
+// Подмножество RRULE: FREQ=DAILY|WEEKLY, INTERVAL, UNTIL, COUNT и EXDATE (exceptions).
+// timeZone — пояс, в котором расписание держит время начала (TZID события); без него шагаем по UTC.
+export interface RecurrenceRule {
+  freq: 'daily' | 'weekly'
+  interval?: number
+  until?: Date
+  count?: number
+  exceptions?: Date[]
+  timeZone?: string
+}
+
+// Верхняя граница на число повторений, чтобы правило без until/count не развернулось в бесконечность.
+export const MAX_OCCURRENCES = 366
+
+// Насколько местное время в поясе timeZone опережает UTC в момент instant, в мс
+function zoneOffset(timeZone: string, instant: number) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(instant))
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant
+}
+
+// Момент, когда в поясе timeZone на часах wall (местное время, записанное как UTC).
+// Смещение берём дважды: на случай, если местное время попало рядом с переходом на летнее.
+export function fromZonedWall(timeZone: string, wall: number) {
+  const guess = wall - zoneOffset(timeZone, wall)
+  return new Date(wall - zoneOffset(timeZone, guess))
+}
+
+// Начало i-го шага правила. В поясе с летним временем шагаем по местным дням,
+// чтобы занятие оставалось в то же время по часам после перехода.
+function nthStart(first: Interval, rule: RecurrenceRule, i: number) {
+  const stepDays = (rule.freq === 'weekly' ? 7 : 1) * (rule.interval ?? 1)
+  const offset = rule.timeZone ? zoneOffset(rule.timeZone, first.start.getTime()) : 0
+  const wall = new Date(first.start.getTime() + offset)
+  wall.setUTCDate(wall.getUTCDate() + i * stepDays)
+  return rule.timeZone ? fromZonedWall(rule.timeZone, wall.getTime()) : wall
+}
+
+// Правило даёт больше MAX_OCCURRENCES шагов: expandRecurrence оборвал бы серию, не дойдя до until
+export function exceedsOccurrenceLimit(first: Interval, rule: RecurrenceRule) {
+  if ((rule.count ?? Infinity) <= MAX_OCCURRENCES) return false
+  return !rule.until || nthStart(first, rule, MAX_OCCURRENCES) <= rule.until
+}
+
+// Разворачивает правило в интервалы занятий. Первое занятие — сам first.
+// Как и в RFC 5545, исключения вычитаются уже после применения COUNT.
+export function expandRecurrence(first: Interval, rule: RecurrenceRule): Interval[] {
+  const duration = first.end.getTime() - first.start.getTime()
+  const skip = new Set((rule.exceptions ?? []).map(d => d.getTime()))
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES)
+
+  const occurrences: Interval[] = []
+  for (let i = 0; i < limit; i++) {
+    const start = nthStart(first, rule, i)
+    if (rule.until && start > rule.until) break
+    if (skip.has(start.getTime())) continue
+    occurrences.push({ start, end: new Date(start.getTime() + duration) })
+  }
+  return occurrences
+}
@@ -1,4 +1,4 @@
-import { Type as T, type Static } from 'typebox'
+import { Type as T, type Static, type TSchema } from 'typebox'
 import type { FastifyError, FastifySchemaValidationError } from 'fastify'
 import type { SchemaErrorDataVar } from 'fastify/types/schema.js'
 
@@ -16,54 +16,493 @@ export class ValidationProblem extends Error implements FastifyError {
   }
 }
 
+// Метка времени в ответе: Prisma отдаёт Date, сериализатор превращает её в строку ISO 8601
+const Timestamp = T.Unsafe<Date | string>({ type: 'string', format: 'date-time' })
+const Nullable = <S extends TSchema>(schema: S) => T.Union([schema, T.Null()])
+
+// title у схем ответов — имя типа в OpenAPI-описании и в сгенерированном по нему клиенте фронтенда
+// Страница списка: { items, page, pageSize, total }
+const PageSchema = <S extends TSchema>(item: S, title: string) => T.Object({
+  items: T.Array(item),
+  page: T.Integer(),
+  pageSize: T.Integer(),
+  total: T.Integer()
+}, { title })
+
+// Ошибка в формате RFC 9457 (см. problem.ts) — общий ответ на 4xx и 5xx. Маршруты отправляют
+// { detail, ...расширения }, а type, title и status дописывает плагин problems, поэтому статический тип
+// у схемы — то, что передаётся в reply.send, а JSON-схема — то, что уходит клиенту.
+type ProblemBody = { detail?: string; [extension: string]: unknown }
+const ProblemProperties = {
+  type: T.String(),
+  title: T.String(),
+  status: T.Integer(),
+  detail: T.Optional(T.String()),
+  instance: T.Optional(T.String()),
+  errors: T.Optional(T.Array(T.Object({ pointer: T.String(), detail: T.String() }, { title: 'FieldError' })))
+}
+export const ProblemSchema = T.Unsafe<ProblemBody>(T.Object(ProblemProperties, { title: 'Problem', additionalProperties: true }))
+const ProblemResponse = {
+  description: 'Ошибка в формате RFC 9457',
+  content: { 'application/problem+json': { schema: ProblemSchema } }
+}
+export const ProblemResponses = { '4xx': ProblemResponse, '5xx': ProblemResponse }
+
+// Ответ без тела (204)
+export const NoContentSchema = T.Null({ description: 'Нет содержимого' })
+// Ответы-файлы: выгрузки CSV и ленты iCalendar
+export const CsvFileSchema = { content: { 'text/csv': { schema: T.String() } } }
+export const CalendarFileSchema = { content: { 'text/calendar': { schema: T.String() } } }
+
+// Параметр пути :id
+export const IdParamsSchema = T.Object({
+  id: T.String()
+})
+
+// Общие параметры списков: страница, размер страницы и направление сортировки
+const PageQueryProps = {
+  page: T.Optional(T.Integer({ minimum: 1 })),
+  pageSize: T.Optional(T.Integer({ minimum: 1, maximum: 500 }))
+}
+const SortOrderSchema = T.Union([T.Literal('asc'), T.Literal('desc')])
+
+// Схемы для входа и регистрации
+export const RegisterSchema = T.Object({
+  email: T.String({ format: 'email' }),
+  name: T.Optional(T.String({ minLength: 1 })),
+  password: T.String({ minLength: 8 })
+})
+export const LoginSchema = T.Object({
+  email: T.String({ format: 'email' }),
+  password: T.String({ minLength: 1 })
+})
+
+// Роли пользователей: admin ведёт каталог, manager управляет любыми бронями, member — только своими
+export const RoleSchema = T.Union([T.Literal('admin'), T.Literal('manager'), T.Literal('member')])
+export const UpdateUserRoleSchema = T.Object({
+  role: RoleSchema
+})
+// Публичные поля пользователя; createdAt — только в списке пользователей
+export const UserSchema = T.Object({
+  id: T.String(),
+  email: T.String(),
+  name: Nullable(T.String()),
+  role: RoleSchema,
+  createdAt: T.Optional(Timestamp)
+}, { title: 'User' })
+export const CalendarTokenSchema = T.Object({
+  token: T.String()
+}, { title: 'CalendarToken' })
+
+// Отчёт импорта CSV: row — номер строки файла, считая заголовок
+export const CsvImportReportSchema = T.Object({
+  created: T.Integer(),
+  updated: T.Integer(),
+  unchanged: T.Integer(),
+  errors: T.Array(T.Object({ row: T.Integer(), errors: T.Array(T.String()) }))
+}, { title: 'CsvImportReport' })
+
 // Схемы для устройств
 export const DeviceSchema = T.Object({
   id: T.String(),
-  name: T.String()
-})
+  name: T.String(),
+  archivedAt: Nullable(Timestamp)
+}, { title: 'Device' })
+export const DevicePageSchema = PageSchema(DeviceSchema, 'DevicePage')
 export const CreateDeviceSchema = T.Object({
   name: T.String({ minLength: 1 })
 })
 export const UpdateDeviceSchema = T.Object({
   name: T.Optional(T.String({ minLength: 1 }))
 })
+// archived=true — вместо действующих записей только архивные
+export const DevicesQuerySchema = T.Object({
+  ...PageQueryProps,
+  q: T.Optional(T.String()),
+  archived: T.Optional(T.Boolean()),
+  sort: T.Optional(T.Literal('name')),
+  order: T.Optional(SortOrderSchema)
+})
+// Занятые и свободные интервалы устройства внутри запрошенного окна
+const IntervalSchema = T.Object({
+  start: Timestamp,
+  end: Timestamp
+}, { title: 'Interval' })
+export const DeviceAvailabilitySchema = T.Object({
+  deviceId: T.String(),
+  from: Timestamp,
+  to: Timestamp,
+  busy: T.Array(IntervalSchema),
+  free: T.Array(IntervalSchema)
+}, { title: 'DeviceAvailability' })
+// Устройства, занятые бронями или обслуживанием хотя бы в части окна
+export const BusyDevicesSchema = T.Object({
+  from: Timestamp,
+  to: Timestamp,
+  deviceIds: T.Array(T.String())
+}, { title: 'BusyDevices' })
+
+// Схемы для справочника оборудования
+export const EquipmentSchema = T.Object({
+  id: T.String(),
+  code: T.String(),
+  label: T.String()
+}, { title: 'Equipment' })
+export const CreateEquipmentSchema = T.Object({
+  code: T.String({ pattern: '^[a-z0-9_-]+$', minLength: 1 }),
+  label: T.String({ minLength: 1 })
+})
+export const UpdateEquipmentSchema = T.Object({
+  code: T.Optional(T.String({ pattern: '^[a-z0-9_-]+$', minLength: 1 })),
+  label: T.Optional(T.String({ minLength: 1 }))
+})
 
-// Схемы для аудиторий
+// Схемы для аудиторий. equipment — коды из справочника оборудования
 export const AuditorySchema = T.Object({
   id: T.String(),
+  code: T.Union([T.String(), T.Null()]),
   name: T.String(),
-  capacity: T.Integer()
-})
+  capacity: T.Integer(),
+  requiresApproval: T.Boolean(),
+  archivedAt: Nullable(Timestamp),
+  equipment: T.Optional(T.Array(T.String()))
+}, { title: 'Auditory' })
+export const AuditoryPageSchema = PageSchema(AuditorySchema, 'AuditoryPage')
 export const CreateAuditorySchema = T.Object({
+  code: T.Optional(T.String({ minLength: 1 })),
   name: T.String({ minLength: 1 }),
-  capacity: T.Integer({ minimum: 1 })
+  capacity: T.Integer({ minimum: 1 }),
+  requiresApproval: T.Optional(T.Boolean()),
+  equipment: T.Optional(T.Array(T.String()))
 })
 export const UpdateAuditorySchema = T.Object({
+  code: T.Optional(T.String({ minLength: 1 })),
   name: T.Optional(T.String({ minLength: 1 })),
-  capacity: T.Optional(T.Integer({ minimum: 1 }))
+  capacity: T.Optional(T.Integer({ minimum: 1 })),
+  requiresApproval: T.Optional(T.Boolean()),
+  equipment: T.Optional(T.Array(T.String()))
+})
+export const AuditoriesQuerySchema = T.Object({
+  ...PageQueryProps,
+  q: T.Optional(T.String()),
+  archived: T.Optional(T.Boolean()),
+  minCapacity: T.Optional(T.Integer({ minimum: 1 })),
+  sort: T.Optional(T.Union([T.Literal('name'), T.Literal('code'), T.Literal('capacity')])),
+  order: T.Optional(SortOrderSchema)
+})
+// Архивирование устройства или аудитории: будущие брони отменяются только по явному cancelUpcoming
+export const ArchiveSchema = T.Object({
+  cancelUpcoming: T.Optional(T.Boolean())
+})
+
+// Поиск свободной аудитории: окно времени, число мест и оборудование списком кодов через запятую
+export const AvailableAuditoriesQuerySchema = T.Object({
+  from: T.String({ format: 'date-time' }),
+  to: T.String({ format: 'date-time' }),
+  minCapacity: T.Optional(T.Integer({ minimum: 1 })),
+  equipment: T.Optional(T.String())
+})
+
+// Схемы для периодов обслуживания: задаётся либо auditoryId, либо deviceId
+export const MaintenanceSchema = T.Object({
+  id: T.String(),
+  auditoryId: Nullable(T.String()),
+  deviceId: Nullable(T.String()),
+  startTime: Timestamp,
+  endTime: Timestamp,
+  reason: T.String(),
+  device: T.Optional(Nullable(DeviceSchema)),
+  auditory: T.Optional(Nullable(AuditorySchema))
+}, { title: 'Maintenance' })
+export const CreateMaintenanceSchema = T.Object({
+  auditoryId: T.Optional(T.String()),
+  deviceId: T.Optional(T.String()),
+  startTime: T.String({ format: 'date-time' }),
+  endTime: T.String({ format: 'date-time' }),
+  reason: T.String({ minLength: 1 })
+})
+// Без from показываются текущие и будущие периоды
+export const MaintenanceQuerySchema = T.Object({
+  auditoryId: T.Optional(T.String()),
+  deviceId: T.Optional(T.String()),
+  from: T.Optional(T.String({ format: 'date-time' })),
+  to: T.Optional(T.String({ format: 'date-time' }))
+})
+
+// Схемы для каталога аудиторий (/api/rooms)
+export const RoomStatusSchema = T.Union([T.Literal('available'), T.Literal('booked'), T.Literal('maintenance')])
+export const RoomSchema = T.Object({
+  id: T.String(),
+  code: T.String(),
+  name: T.String(),
+  capacity: T.Integer(),
+  equipment: T.Array(T.String()),
+  status: RoomStatusSchema
+}, { title: 'Room' })
+export const RoomPageSchema = PageSchema(RoomSchema, 'RoomPage')
+export const RoomsQuerySchema = T.Object({
+  ...PageQueryProps
 })
 
 // Схемы для бронирования
+export const BookingStatusSchema = T.Union([
+  T.Literal('pending'), T.Literal('rejected'), T.Literal('booked'), T.Literal('checked_in'), T.Literal('no_show')
+])
+// Владелец брони — без роли и служебных полей
+// email отдаётся только менеджерам, администраторам и самому владельцу брони
+export const BookingOwnerSchema = T.Object({
+  id: T.String(),
+  name: Nullable(T.String()),
+  email: T.Optional(T.String())
+}, { title: 'BookingOwner' })
 export const BookingSchema = T.Object({
   id: T.String(),
-  deviceId: T.String(),
+  deviceId: Nullable(T.String()),
   auditoryId: T.String(),
-  startTime: T.String(),
-  endTime: T.String(),
-  device: T.Optional(DeviceSchema),
-  auditory: T.Optional(AuditorySchema)
+  startTime: Timestamp,
+  endTime: Timestamp,
+  userId: Nullable(T.String()),
+  seriesId: Nullable(T.String()),
+  status: BookingStatusSchema,
+  checkedInAt: Nullable(Timestamp),
+  checkInRequired: T.Boolean(),
+  decidedAt: Nullable(Timestamp),
+  decisionReason: Nullable(T.String()),
+  device: T.Optional(Nullable(DeviceSchema)),
+  auditory: T.Optional(AuditorySchema),
+  user: T.Optional(Nullable(BookingOwnerSchema))
+}, { title: 'Booking' })
+export const BookingPageSchema = PageSchema(BookingSchema, 'BookingPage')
+// Занятие серии и то, с чем оно пересекается (в отчётах о конфликтах и пропущенных датах)
+export const OccurrenceReportSchema = T.Object({
+  startTime: Timestamp,
+  endTime: Timestamp,
+  conflicts: T.Array(BookingSchema),
+  maintenance: T.Array(MaintenanceSchema)
+}, { title: 'OccurrenceReport' })
+export const BookingSeriesSchema = T.Object({
+  id: T.String(),
+  userId: Nullable(T.String()),
+  freq: T.Union([T.Literal('daily'), T.Literal('weekly')]),
+  interval: T.Integer(),
+  until: Nullable(Timestamp),
+  count: Nullable(T.Integer()),
+  exceptions: T.Array(Timestamp),
+  createdAt: Timestamp
+}, { title: 'BookingSeries' })
+// Создание серии: созданные занятия и даты, пропущенные из-за пересечений
+export const CreatedSeriesSchema = T.Object({
+  series: BookingSeriesSchema,
+  bookings: T.Array(BookingSchema),
+  skipped: T.Array(OccurrenceReportSchema)
+}, { title: 'CreatedSeries' })
+// Изменение или решение по всей серии: затронутые занятия
+export const UpdatedSeriesSchema = T.Object({
+  seriesId: Nullable(T.String()),
+  bookings: T.Array(BookingSchema)
+}, { title: 'UpdatedSeries' })
+// Периоды обслуживания при создании отдаются вместе с бронями, попавшими в окно
+export const CreatedMaintenanceSchema = T.Object({
+  ...MaintenanceSchema.properties,
+  affectedBookings: T.Array(BookingSchema)
+}, { title: 'CreatedMaintenance' })
+// from/to отбирают брони, пересекающиеся с окном; q ищет по названиям аудитории, устройства и имени владельца
+export const BookingsQuerySchema = T.Object({
+  ...PageQueryProps,
+  // mine=true — только брони текущего пользователя
+  mine: T.Optional(T.Boolean()),
+  q: T.Optional(T.String()),
+  auditoryId: T.Optional(T.String()),
+  deviceId: T.Optional(T.String()),
+  userId: T.Optional(T.String()),
+  // status=pending — очередь на подтверждение
+  status: T.Optional(BookingStatusSchema),
+  from: T.Optional(T.String({ format: 'date-time' })),
+  to: T.Optional(T.String({ format: 'date-time' })),
+  sort: T.Optional(T.Union([T.Literal('startTime'), T.Literal('endTime')])),
+  order: T.Optional(SortOrderSchema)
 })
+// Правило повторения: until или count обязателен; exceptions — начала занятий, которые нужно пропустить
+export const RecurrenceSchema = T.Object({
+  freq: T.Union([T.Literal('daily'), T.Literal('weekly')]),
+  interval: T.Optional(T.Integer({ minimum: 1, maximum: 52 })),
+  until: T.Optional(T.String({ format: 'date-time' })),
+  count: T.Optional(T.Integer({ minimum: 1, maximum: 366 })),
+  exceptions: T.Optional(T.Array(T.String({ format: 'date-time' })))
+})
+// startTime необязателен: без него бронь начинается «сейчас», как раньше.
+// С recurrence создаётся серия; skipConflicts пропускает занятые даты вместо отказа всей серии.
 export const CreateBookingSchema = T.Object({
   deviceId: T.String(),
   auditoryId: T.String(),
-  endTime: T.String()
+  startTime: T.Optional(T.String({ format: 'date-time' })),
+  endTime: T.String({ format: 'date-time' }),
+  recurrence: T.Optional(RecurrenceSchema),
+  skipConflicts: T.Optional(T.Boolean())
+})
+// Для занятий серии: изменить/отменить только это занятие или всю серию (будущие занятия)
+export const BookingScopeQuerySchema = T.Object({
+  scope: T.Optional(T.Union([T.Literal('occurrence'), T.Literal('series')]))
 })
 export const UpdateBookingSchema = T.Object({
   deviceId: T.Optional(T.String()),
   auditoryId: T.Optional(T.String()),
-  endTime: T.Optional(T.String())
+  startTime: T.Optional(T.String({ format: 'date-time' })),
+  endTime: T.Optional(T.String({ format: 'date-time' }))
+})
+
+// Решение по брони, ожидающей подтверждения: при отклонении причина обязательна
+export const ApproveBookingSchema = T.Object({
+  reason: T.Optional(T.String())
+})
+export const RejectBookingSchema = T.Object({
+  reason: T.String({ minLength: 1 })
+})
+
+// Импорт расписания из .ics: без commit=true — только предпросмотр
+export const ImportBookingsQuerySchema = T.Object({
+  commit: T.Optional(T.Boolean())
+})
+// Отчёт по событию файла; у события с ошибкой разбора времени может не быть
+export const ImportedEventSchema = T.Object({
+  uid: Nullable(T.String()),
+  summary: T.String(),
+  location: T.String(),
+  startTime: Nullable(Timestamp),
+  endTime: Nullable(Timestamp),
+  auditoryId: T.Optional(T.String()),
+  status: T.Union([
+    T.Literal('ok'), T.Literal('partial'), T.Literal('conflict'), T.Literal('unknownRoom'), T.Literal('invalid'), T.Literal('past')
+  ]),
+  detail: T.Optional(T.String()),
+  // Занятия, которые пересекаются с бронями, обслуживанием или другими событиями файла
+  occurrences: T.Optional(T.Array(T.Object({ ...OccurrenceReportSchema.properties, inFile: T.Boolean() })))
+}, { title: 'ImportedEvent' })
+export const TimetableImportReportSchema = T.Object({
+  committed: T.Boolean(),
+  created: T.Integer(),
+  events: T.Array(ImportedEventSchema)
+}, { title: 'TimetableImportReport' })
+
+// Что затронет архивирование: брони за всё время и ещё не начавшиеся
+export const ArchiveImpactSchema = T.Object({
+  bookings: T.Integer(),
+  upcoming: T.Array(BookingSchema)
+}, { title: 'ArchiveImpact' })
+
+// 409 со списком того, что мешает: пересекающиеся брони, обслуживание, занятия серии, события импорта,
+// будущие брони архивируемой записи. В отличие от общего Problem, лишних полей схема не пропускает:
+// маршруты отдают строки Prisma, и служебные колонки отсекаются при сериализации.
+export const ConflictProblemSchema = T.Unsafe<ProblemBody>(T.Object({
+  ...ProblemProperties,
+  conflicts: T.Optional(T.Array(BookingSchema)),
+  maintenance: T.Optional(T.Array(MaintenanceSchema)),
+  occurrences: T.Optional(T.Array(OccurrenceReportSchema)),
+  events: T.Optional(T.Array(ImportedEventSchema)),
+  upcoming: T.Optional(T.Array(BookingSchema))
+}, { title: 'ConflictProblem' }))
+export const ConflictResponses = {
+  409: { description: 'Конфликт в формате RFC 9457', content: { 'application/problem+json': { schema: ConflictProblemSchema } } },
+  ...ProblemResponses
+}
+// Архивированная запись и число отменённых будущих броней
+export const ArchivedDeviceSchema = T.Object({
+  ...DeviceSchema.properties,
+  cancelled: T.Integer()
+}, { title: 'ArchivedDevice' })
+export const ArchivedAuditorySchema = T.Object({
+  ...AuditorySchema.properties,
+  cancelled: T.Integer()
+}, { title: 'ArchivedAuditory' })
+
+// Календарные ленты: token — секрет подписки для клиентов без cookie
+export const CalendarFeedQuerySchema = T.Object({
+  token: T.Optional(T.String())
+})
+
+// Уведомления: unread=true — только непрочитанные
+export const NotificationsQuerySchema = T.Object({
+  ...PageQueryProps,
+  unread: T.Optional(T.Boolean())
+})
+export const NotificationSchema = T.Object({
+  id: T.String(),
+  kind: T.Union([
+    T.Literal('ending_soon'), T.Literal('booking_changed'), T.Literal('booking_cancelled'), T.Literal('room_free'),
+    T.Literal('no_show'), T.Literal('booking_approved'), T.Literal('booking_rejected')
+  ]),
+  message: T.String(),
+  bookingId: Nullable(T.String()),
+  auditoryId: Nullable(T.String()),
+  startTime: Nullable(Timestamp),
+  endTime: Nullable(Timestamp),
+  readAt: Nullable(Timestamp),
+  createdAt: Timestamp
+}, { title: 'Notification' })
+// unread — число непрочитанных всего, независимо от страницы
+export const NotificationPageSchema = T.Object({
+  ...PageSchema(NotificationSchema, 'NotificationPage').properties,
+  unread: T.Integer()
+}, { title: 'NotificationPage' })
+// Журнал изменений: фильтр по типу записи и её id, новые записи сверху
+const AuditEntitySchema = T.Union([T.Literal('device'), T.Literal('auditory'), T.Literal('booking')])
+export const AuditQuerySchema = T.Object({
+  ...PageQueryProps,
+  entity: T.Optional(AuditEntitySchema),
+  id: T.Optional(T.String())
+})
+// Состояние записи до и после изменения — произвольный JSON-объект
+const AuditSnapshot = T.Unsafe<unknown>({ anyOf: [{ type: 'object', additionalProperties: true }, { type: 'null' }] })
+export const AuditEntrySchema = T.Object({
+  id: T.String(),
+  entity: AuditEntitySchema,
+  entityId: T.String(),
+  action: T.Union([T.Literal('created'), T.Literal('updated'), T.Literal('deleted')]),
+  actorId: Nullable(T.String()),
+  actorName: Nullable(T.String()),
+  before: AuditSnapshot,
+  after: AuditSnapshot,
+  createdAt: Timestamp
+}, { title: 'AuditEntry' })
+export const AuditPageSchema = PageSchema(AuditEntrySchema, 'AuditPage')
+
+// Ожидание освобождения аудитории на интервал
+export const CreateRoomWatchSchema = T.Object({
+  auditoryId: T.String(),
+  startTime: T.String({ format: 'date-time' }),
+  endTime: T.String({ format: 'date-time' })
+})
+export const RoomWatchSchema = T.Object({
+  id: T.String(),
+  userId: T.String(),
+  auditoryId: T.String(),
+  startTime: Timestamp,
+  endTime: Timestamp,
+  createdAt: Timestamp,
+  auditory: AuditorySchema
+}, { title: 'RoomWatch' })
+
+// Статистика неявок: без from — за последние 90 дней
+export const NoShowStatsQuerySchema = T.Object({
+  from: T.Optional(T.String({ format: 'date-time' }))
+})
+// rate — доля неявок среди отмеченных и снятых броней
+export const NoShowStatsSchema = T.Object({
+  user: BookingOwnerSchema,
+  checkedIn: T.Integer(),
+  noShows: T.Integer(),
+  rate: T.Number()
+}, { title: 'NoShowStats' })
+
+// Окно времени для запросов занятости
+export const AvailabilityQuerySchema = T.Object({
+  from: T.String({ format: 'date-time' }),
+  to: T.String({ format: 'date-time' })
 })
 
 export type Device = Static<typeof DeviceSchema>
+export type Equipment = Static<typeof EquipmentSchema>
 export type Auditory = Static<typeof AuditorySchema>
+export type Room = Static<typeof RoomSchema>
+export type Maintenance = Static<typeof MaintenanceSchema>
 export type Booking = Static<typeof BookingSchema>
\ No newline at end of file
@@ -1,42 +1,92 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import {
   Container, Box, TextField, Button, Table, TableHead, TableRow, 
   TableCell, TableBody, IconButton, Typography, MenuItem, Paper, Divider,
-  Dialog, DialogTitle, DialogContent, DialogActions
+  Dialog, DialogTitle, DialogContent, DialogActions, Chip, Stack, TablePagination,
+  FormControlLabel, Checkbox
 } from "@mui/material";
-import { Delete, Add, Edit } from "@mui/icons-material";
+import { Delete, Add, Edit, Repeat, Download } from "@mui/icons-material";
 import { Header } from './components/Header';
-
-interface Device {
-  id: string;
-  name: string;
+import { NotificationCenter, useNotifications } from './components/NotificationCenter';
+import { LoginDialog } from './components/LoginDialog';
+import { MyBookings } from './components/MyBookings';
+import { BookingTimeline } from './components/BookingTimeline';
+import { CalendarSubscription } from './components/CalendarSubscription';
+import { TimetableImport } from './components/TimetableImport';
+import { CatalogCsv } from './components/CatalogCsv';
+import { NoShowStats } from './components/NoShowStats';
+import { ApprovalQueue } from './components/ApprovalQueue';
+import { AuditHistory } from './components/AuditHistory';
+import { ArchiveDialog, type ArchiveTarget } from './components/ArchiveDialog';
+import { ArchivedCatalog } from './components/ArchivedCatalog';
+import axios from 'axios';
+import type { BookingStatus } from './api/bookingsApi';
+import { api } from './api/client';
+import { csvExportUrl } from './api/csvApi';
+import type { Auditory, Booking, BookingPage, ConflictProblem, CreatedSeries, Device, Equipment, Maintenance } from './api/schema.gen';
+import { subscribeLiveEvents, type LiveEventDto } from './api/liveEvents';
+import { errorMessage, problemText } from './api/problem';
+import { useAuth } from './context/auth';
+import { canManageCatalog, canManageAnyBooking } from './context/permissions';
+import { EquipmentAdmin } from './components/EquipmentAdmin';
+import { MaintenanceAdmin } from './components/MaintenanceAdmin';
+
+type SeriesScope = "occurrence" | "series";
+
+// Статусы брони в журнале; заявки и отклонённые брони аудиторию не занимают
+const BOOKING_STATUS: Record<BookingStatus, { label: string; color: "default" | "warning" | "error" | "success" }> = {
+  pending: { label: "Ждёт подтверждения", color: "warning" },
+  rejected: { label: "Отклонена", color: "error" },
+  booked: { label: "Забронировано", color: "default" },
+  checked_in: { label: "Отмечено", color: "success" },
+  no_show: { label: "Неявка", color: "error" },
 }
-
-interface Auditory {
-  id: string;
-  name: string;
-  capacity: number;
+const occupies = (b: Booking) => b.status !== 'pending' && b.status !== 'rejected'
+
+// Поля брони, которые показывает панель «История» в диалоге редактирования
+const BOOKING_HISTORY_FIELDS = {
+  auditoryId: "Аудитория",
+  deviceId: "Устройство",
+  startTime: "Начало",
+  endTime: "Окончание",
+  status: "Статус",
+  decisionReason: "Причина решения",
 }
 
-interface Booking {
-  id: string;
-  deviceId: string;
-  auditoryId: string;
-  startTime: string;
-  endTime: string;
-  device?: Device;
-  auditory?: Auditory;
-}
+const upsert = <T extends { id: string }>(list: T[], item: T) =>
+  list.some(x => x.id === item.id) ? list.map(x => (x.id === item.id ? item : x)) : [...list, item]
+
+// 409 от API: тело со списком пересечений; для остальных ошибок — null
+const conflictOf = (e: unknown): ConflictProblem | null =>
+  axios.isAxiosError<ConflictProblem>(e) && e.response?.status === 409 ? e.response.data : null
 
 function App() {
+  const { user, isAuthenticated, signOut } = useAuth()
+  const catalogEditable = canManageCatalog(user)
+  const bookingsEditable = canManageAnyBooking(user)
+  const [loginOpen, setLoginOpen] = useState(false)
+  const notifications = useNotifications()
+  const [bellAnchor, setBellAnchor] = useState<HTMLElement | null>(null)
   const [active, setActive] = useState("catalog")
   const [devices, setDevices] = useState<Device[]>([])
   const [auditories, setAuditories] = useState<Auditory[]>([])
-  const [bookings, setBookings] = useState<Booking[]>([])
-
-  const [bookingForm, setBookingForm] = useState({ devId: "", audId: "", end: "" })
+  // Брони, идущие прямо сейчас — по ним считается состояние аудиторий
+  const [activeBookings, setActiveBookings] = useState<Booking[]>([])
+  const [equipment, setEquipment] = useState<Equipment[]>([])
+  const [maintenance, setMaintenance] = useState<Maintenance[]>([])
+
+  // Журнал: фильтры и постраничный вывод делает сервер
+  const [journal, setJournal] = useState<BookingPage>({ items: [], page: 1, pageSize: 10, total: 0 })
+  const [journalFilter, setJournalFilter] = useState({ q: "", auditoryId: "", deviceId: "", status: "", from: "", to: "" })
+  const [journalPage, setJournalPage] = useState({ page: 0, pageSize: 10 })
+
+  const [bookingForm, setBookingForm] = useState({ devId: "", audId: "", start: "", end: "", repeat: "", until: "" })
+  const [busyDevices, setBusyDevices] = useState<string[]>([])
+  // Режим подбора: вместо выбора аудитории вручную указываем число участников и оборудование
+  const [finder, setFinder] = useState({ on: false, people: "", equipment: [] as string[] })
+  const [suggestions, setSuggestions] = useState<Auditory[] | null>(null)
   const [newDevName, setNewDevName] = useState("")
-  const [newAud, setNewAud] = useState({ name: "", cap: 1 })
+  const [newAud, setNewAud] = useState({ code: "", name: "", cap: 1, equipment: [] as string[], requiresApproval: false })
 
   const [editDeviceOpen, setEditDeviceOpen] = useState(false)
   const [editingDevice, setEditingDevice] = useState<Device | null>(null)
@@ -47,72 +97,227 @@ function App() {
   const [editBookingOpen, setEditBookingOpen] = useState(false)
   const [editingBooking, setEditingBooking] = useState<Booking | null>(null)
 
-   let API: string  = "http://localhost/api"
-  if(import.meta.env.PROD)
-  {
+  // Устройство или аудитория, для которой открыт диалог удаления и архивирования
+  const [archiveTarget, setArchiveTarget] = useState<ArchiveTarget | null>(null)
 
-    API = "https://is-aplication.onrender.com/api"
-  }
+  // Выбор «это занятие / вся серия» для броней из повторяющейся серии
+  const [scopePrompt, setScopePrompt] = useState<{ title: string; resolve: (scope: SeriesScope | null) => void } | null>(null)
+  const askScope = (title: string) => new Promise<SeriesScope | null>(resolve => setScopePrompt({ title, resolve }))
+  const answerScope = (scope: SeriesScope | null) => { scopePrompt?.resolve(scope); setScopePrompt(null) }
+
+  const journalFilters = useMemo(() => ({
+    ...(journalFilter.q && { q: journalFilter.q }),
+    ...(journalFilter.auditoryId && { auditoryId: journalFilter.auditoryId }),
+    ...(journalFilter.deviceId && { deviceId: journalFilter.deviceId }),
+    ...(journalFilter.status && { status: journalFilter.status as BookingStatus }),
+    ...(journalFilter.from && { from: new Date(journalFilter.from).toISOString() }),
+    ...(journalFilter.to && { to: new Date(journalFilter.to).toISOString() })
+  }), [journalFilter])
+
+  const loadJournal = useCallback(async () => {
+    try {
+      setJournal(await api("get", "/api/bookings", {
+        query: { page: journalPage.page + 1, pageSize: journalPage.pageSize, ...journalFilters }
+      }))
+    } catch (e) { console.error(e) }
+  }, [journalPage, journalFilters])
+
+  useEffect(() => { loadJournal() }, [loadJournal])
 
   const loadData = async () => {
     try {
-      const [d, a, b] = await Promise.all([
-        fetch(`${API}/devices`).then(r => r.json()),
-        fetch(`${API}/auditories`).then(r => r.json()),
-        fetch(`${API}/bookings`).then(r => r.json())
+      const now = new Date().toISOString()
+      const [d, a, b, eq, m] = await Promise.all([
+        api("get", "/api/devices", { query: { pageSize: 500 } }),
+        api("get", "/api/auditories", { query: { pageSize: 500 } }),
+        api("get", "/api/bookings", { query: { from: now, to: now, pageSize: 500 } }),
+        api("get", "/api/equipment"),
+        api("get", "/api/maintenance")
       ])
-      setDevices(d); setAuditories(a); setBookings(b)
+      setDevices(d.items); setAuditories(a.items); setActiveBookings(b.items); setEquipment(eq); setMaintenance(m)
     } catch (e) { console.error(e) }
+    loadJournal()
   }
 
   useEffect(() => { loadData() }, [])
 
+  // Изменения других пользователей: каталог правим на месте, журнал и массовые изменения перечитываем
+  const applyLiveEvent = useRef<(event: LiveEventDto) => void>(() => {})
+  applyLiveEvent.current = (event) => {
+    if (event.action === 'bulk' || event.entity === 'maintenance') { loadData(); return }
+    const removed = event.action === 'deleted'
+    // Архивные устройства и аудитории из списков и выбора пропадают, как удалённые
+    const archived = !!(event.data as { archivedAt?: string | null } | undefined)?.archivedAt
+    if (event.entity === 'device') {
+      setDevices(list => removed || archived ? list.filter(d => d.id !== event.id) : upsert(list, event.data as Device))
+    }
+    if (event.entity === 'auditory') {
+      setAuditories(list => removed || archived ? list.filter(a => a.id !== event.id) : upsert(list, event.data as Auditory))
+    }
+    if (event.entity === 'booking') {
+      const booking = removed ? null : event.data as Booking
+      const now = new Date()
+      const active = booking && new Date(booking.startTime) <= now && new Date(booking.endTime) > now
+      setActiveBookings(list => {
+        const rest = list.filter(b => b.id !== event.id)
+        return active ? [...rest, booking] : rest
+      })
+      if (event.action === 'updated') {
+        setJournal(page => ({ ...page, items: page.items.map(b => (b.id === event.id ? booking! : b)) }))
+      } else {
+        loadJournal()
+      }
+    }
+  }
+  useEffect(() => subscribeLiveEvents(event => applyLiveEvent.current(event)), [])
+
+  const filterJournal = (patch: Partial<typeof journalFilter>) => {
+    setJournalFilter({ ...journalFilter, ...patch })
+    setJournalPage({ ...journalPage, page: 0 })
+  }
+
+  // Устройства, занятые в выбранном окне бронирования, показываем неактивными
+  useEffect(() => {
+    if (!bookingForm.end) { setBusyDevices([]); return }
+    const from = bookingForm.start ? new Date(bookingForm.start) : new Date()
+    const to = new Date(bookingForm.end)
+    if (from >= to) { setBusyDevices([]); return }
+    let cancelled = false
+    api("get", "/api/devices/busy", { query: { from: from.toISOString(), to: to.toISOString() } })
+      .then(({ deviceIds }) => { if (!cancelled) setBusyDevices(deviceIds) })
+      .catch(e => console.error(e))
+    return () => { cancelled = true }
+  }, [bookingForm.start, bookingForm.end])
+
+  // Свободные на всё окно аудитории, от самой подходящей по размеру
+  useEffect(() => {
+    if (!finder.on || !bookingForm.end) { setSuggestions(null); return }
+    const from = bookingForm.start ? new Date(bookingForm.start) : new Date()
+    const to = new Date(bookingForm.end)
+    if (from >= to) { setSuggestions(null); return }
+    const query = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...(finder.people && { minCapacity: Number(finder.people) }),
+      ...(finder.equipment.length > 0 && { equipment: finder.equipment.join(',') })
+    }
+    let cancelled = false
+    api("get", "/api/auditories/available", { query })
+      .then(items => { if (!cancelled) setSuggestions(items) })
+      .catch(e => { console.error(e); if (!cancelled) setSuggestions([]) })
+    return () => { cancelled = true }
+  }, [finder, bookingForm.start, bookingForm.end])
+
+  // 409 от API содержит список пересекающихся броней — добавляем их интервалы к сообщению
+  // Для серии — построчный отчёт по занятиям, которые пересекаются с другими бронями
+  const conflictMessage = (data: ConflictProblem) => {
+    const lines = (data.conflicts ?? []).map(c =>
+      `${c.auditory?.name ?? ''}: ${new Date(c.startTime).toLocaleString()} — ${new Date(c.endTime).toLocaleString()}`
+    )
+    const occurrenceLines = (data.occurrences ?? [])
+      .filter(o => o.conflicts.length > 0 || (o.maintenance ?? []).length > 0)
+      .map(o => {
+        const reasons = [
+          ...o.conflicts.map(c => c.auditory?.name ?? c.device?.name),
+          ...(o.maintenance ?? []).map(m => `обслуживание: ${m.reason}`)
+        ]
+        return `${new Date(o.startTime).toLocaleString()}: занято (${reasons.join(', ')})`
+      })
+    return [problemText(data), ...lines, ...occurrenceLines].join("\n")
+  }
+
   // Логика бронирования
   const handleBooking = async () => {
+    const recurrence = bookingForm.repeat
+      ? { freq: bookingForm.repeat as "daily" | "weekly", until: new Date(`${bookingForm.until}T23:59:59`).toISOString() }
+      : undefined
+    const submit = (skipConflicts: boolean) => api("post", "/api/bookings", {
+      body: {
+        deviceId: bookingForm.devId,
+        auditoryId: bookingForm.audId,
+        startTime: bookingForm.start ? new Date(bookingForm.start).toISOString() : undefined,
+        endTime: new Date(bookingForm.end).toISOString(),
+        recurrence,
+        skipConflicts
+      }
+    })
     try {
-      const res = await fetch(`${API}/bookings`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          deviceId: bookingForm.devId, 
-          auditoryId: bookingForm.audId, 
-          endTime: new Date(bookingForm.end).toISOString() 
-        })
-      })
-      const data = await res.json()
-      if (!res.ok) throw new Error(data.detail || "Ошибка")
-      setBookings([data, ...bookings])
-      setBookingForm({ devId: "", audId: "", end: "" })
-    } catch (e: any) { alert(e.message) }
+      let created: Booking | CreatedSeries
+      try {
+        created = await submit(false)
+      } catch (e) {
+        const conflict = conflictOf(e)
+        if (!conflict) throw e
+        // Серия с частично занятыми датами: предлагаем создать только свободные занятия
+        if (conflict.occurrences && confirm(`${conflictMessage(conflict)}\n\nСоздать серию без занятых дат?`)) {
+          created = await submit(true)
+        } else {
+          // Аудитория занята: можно встать в ожидание и получить уведомление, когда интервал освободится
+          const auditoryBusy = (conflict.conflicts ?? []).some(c => c.auditoryId === bookingForm.audId)
+          if (!recurrence && auditoryBusy && confirm(`${conflictMessage(conflict)}\n\nСообщить, когда аудитория освободится?`)) {
+            await api("post", "/api/watches", {
+              body: {
+                auditoryId: bookingForm.audId,
+                startTime: new Date(bookingForm.start || Date.now()).toISOString(),
+                endTime: new Date(bookingForm.end).toISOString()
+              }
+            })
+            return
+          }
+          throw new Error(conflictMessage(conflict))
+        }
+      }
+      // Серия возвращается как { bookings }, одиночная бронь — сама по себе
+      if (('bookings' in created ? created.bookings[0] : created)?.status === 'pending') alert("Аудитория бронируется с подтверждением: заявка отправлена")
+      loadData()
+      setBookingForm({ devId: "", audId: "", start: "", end: "", repeat: "", until: "" })
+    } catch (e) { alert(errorMessage(e)) }
   }
 
   // Создание Устройства
   const addDevice = async () => {
-    await fetch(`${API}/devices`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ name: newDevName })
-    })
-    setNewDevName(""); loadData()
+    try {
+      await api("post", "/api/devices", { body: { name: newDevName } })
+      setNewDevName(""); loadData()
+    } catch (e) { alert(errorMessage(e)) }
   }
 
   // Создание Аудитории
   const addAuditory = async () => {
-    await fetch(`${API}/auditories`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ name: newAud.name, capacity: Number(newAud.cap) })
-    })
-    setNewAud({ name: "", cap: 1 }); loadData()
+    try {
+      await api("post", "/api/auditories", {
+        body: {
+          code: newAud.code || undefined,
+          name: newAud.name,
+          capacity: Number(newAud.cap),
+          requiresApproval: newAud.requiresApproval,
+          equipment: newAud.equipment
+        }
+      })
+      setNewAud({ code: "", name: "", cap: 1, equipment: [], requiresApproval: false }); loadData()
+    } catch (e) { alert(errorMessage(e)) }
   }
 
-  const deleteItem = async (path: string, id: string) => {
-    await fetch(`${API}/${path}/${id}`, { method: "DELETE" })
+  // Отказ сервера (403, 404) показываем, а не проглатываем
+  const deleteItem = async (request: Promise<void>) => {
+    try { await request } catch (e) { alert(errorMessage(e)) }
     loadData()
   }
 
+  const deleteBooking = async (b: Booking) => {
+    if (!b.seriesId) return deleteItem(api("delete", "/api/bookings/{id}", { params: { id: b.id } }))
+    const scope = await askScope("Отменить бронирование")
+    if (!scope) return
+    await deleteItem(api("delete", "/api/bookings/{id}", { params: { id: b.id }, query: { scope } }))
+  }
+
+  const equipmentLabel = (code: string) => equipment.find(e => e.code === code)?.label ?? code
+
   const checkStatus = (audId: string) => {
-    const activeB = bookings.find(b => b.auditoryId === audId && new Date(b.endTime) > new Date())
+    const now = new Date()
+    const service = maintenance.find(m => m.auditoryId === audId && new Date(m.startTime) <= now && new Date(m.endTime) > now)
+    if (service) return { msg: `На обслуживании до ${new Date(service.endTime).toLocaleString()}`, busy: true }
+    const activeB = activeBookings.find(b => b.auditoryId === audId && occupies(b) && new Date(b.startTime) <= now && new Date(b.endTime) > now)
     return activeB ? { msg: `Занята до ${new Date(activeB.endTime).toLocaleTimeString()}`, busy: true } : { msg: "Свободна", busy: false }
   }
 
@@ -134,18 +339,10 @@ function App() {
   const saveDevice = async () => {
     if (!editingDevice) return
     try {
-      const res = await fetch(`${API}/devices/${editingDevice.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: editingDevice.name })
-      })
-      if (!res.ok) {
-        const data = await res.json()
-        throw new Error(data.detail || 'Ошибка')
-      }
+      await api("put", "/api/devices/{id}", { params: { id: editingDevice.id }, body: { name: editingDevice.name } })
       setEditDeviceOpen(false)
       loadData()
-    } catch (e: any) { alert(e.message) }
+    } catch (e) { alert(errorMessage(e)) }
   }
 
   const handleEditAuditory = (a: Auditory) => {
@@ -156,18 +353,19 @@ function App() {
   const saveAuditory = async () => {
     if (!editingAuditory) return
     try {
-      const res = await fetch(`${API}/auditories/${editingAuditory.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: editingAuditory.name, capacity: editingAuditory.capacity })
+      await api("put", "/api/auditories/{id}", {
+        params: { id: editingAuditory.id },
+        body: {
+          code: editingAuditory.code || undefined,
+          name: editingAuditory.name,
+          capacity: editingAuditory.capacity,
+          requiresApproval: editingAuditory.requiresApproval,
+          equipment: editingAuditory.equipment ?? []
+        }
       })
-      if (!res.ok) {
-        const data = await res.json()
-        throw new Error(data.detail || 'Ошибка')
-      }
       setEditAuditoryOpen(false)
       loadData()
-    } catch (e: any) { alert(e.message) }
+    } catch (e) { alert(errorMessage(e)) }
   }
 
   const handleEditBooking = (b: Booking) => {
@@ -177,132 +375,298 @@ function App() {
 
   const saveBooking = async () => {
     if (!editingBooking) return
+    const scope = editingBooking.seriesId ? await askScope("Сохранить изменения") : "occurrence"
+    if (!scope) return
     try {
-      const res = await fetch(`${API}/bookings/${editingBooking.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          deviceId: editingBooking.deviceId, 
-          auditoryId: editingBooking.auditoryId, 
-          endTime: editingBooking.endTime 
-        })
+      await api("put", "/api/bookings/{id}", {
+        params: { id: editingBooking.id },
+        query: { scope },
+        body: {
+          deviceId: editingBooking.deviceId ?? undefined,
+          auditoryId: editingBooking.auditoryId,
+          startTime: editingBooking.startTime,
+          endTime: editingBooking.endTime
+        }
       })
-      const data = await res.json()
-      if (!res.ok) throw new Error(data.detail || 'Ошибка')
       setEditBookingOpen(false)
       loadData()
-    } catch (e: any) { alert(e.message) }
+    } catch (e) {
+      const conflict = conflictOf(e)
+      alert(conflict ? conflictMessage(conflict) : errorMessage(e))
+    }
   }
 
   return (
     <>
-      <Header activeNavId={active} onNavigate={setActive} onBellClick={() => {}} />
+      <Header
+        activeNavId={active}
+        onNavigate={setActive}
+        unreadCount={notifications.unread}
+        onBellClick={anchor => { setBellAnchor(anchor); notifications.reload() }}
+        onAvatarClick={() => {
+          if (!isAuthenticated) setLoginOpen(true)
+          else if (confirm("Выйти из аккаунта?")) signOut()
+        }}
+      />
+      <NotificationCenter
+        anchorEl={bellAnchor}
+        onClose={() => setBellAnchor(null)}
+        items={notifications.items}
+        unread={notifications.unread}
+        onRead={id => notifications.markRead(id).catch(e => alert(errorMessage(e)))}
+        onReadAll={() => notifications.markAllRead().catch(e => alert(errorMessage(e)))}
+      />
+      <LoginDialog open={loginOpen} onClose={() => setLoginOpen(false)} />
       <Container maxWidth="lg" sx={{ py: 4 }}>
-        
-        {/* Секция бронирования */}
-        <Typography variant="h5" gutterBottom sx={{ fontWeight: 'bold' }}>Бронирование</Typography>
-        <Paper sx={{ p: 3, mb: 4, display: 'flex', gap: 2, alignItems: 'center', bgcolor: '#f5f5f5' }}>
-          <TextField select label="Устройство" value={bookingForm.devId} onChange={e => setBookingForm({...bookingForm, devId: e.target.value})} sx={{ flex: 1 }}>
-            {devices.map(d => <MenuItem key={d.id} value={d.id}>{d.name}</MenuItem>)}
-          </TextField>
-          <TextField select label="Аудитория" value={bookingForm.audId} onChange={e => setBookingForm({...bookingForm, audId: e.target.value})} sx={{ flex: 1 }}>
-            {auditories.map(a => <MenuItem key={a.id} value={a.id}>{a.name}</MenuItem>)}
-          </TextField>
-          <TextField type="datetime-local" label="До" InputLabelProps={{ shrink: true }} value={bookingForm.end} onChange={e => setBookingForm({...bookingForm, end: e.target.value})} sx={{ flex: 1 }} />
-          <Button variant="contained" onClick={handleBooking} size="large">Занять</Button>
-        </Paper>
-
-        {/* Таблица Устройств */}
-        <Typography variant="h6" gutterBottom>Устройства</Typography>
-        <Table sx={{ mb: 4 }}>
-          <TableHead>
-            <TableRow>
-              <TableCell>Название</TableCell>
-              <TableCell align="right">Действия</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {devices.map(d => (
-              <TableRow key={d.id}>
-                <TableCell>{d.name}</TableCell>
-                <TableCell align="right">
-                  <IconButton onClick={() => handleEditDevice(d)}><Edit /></IconButton>
-                  <IconButton onClick={() => deleteItem('devices', d.id)} color="error"><Delete /></IconButton>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-
-        {/* Таблица Аудиторий */}
-        <Typography variant="h6" gutterBottom>Статус аудиторий</Typography>
-        <Table sx={{ mb: 4 }}>
-          <TableHead><TableRow><TableCell>Название</TableCell><TableCell>Мест</TableCell><TableCell>Текущее состояние</TableCell><TableCell align="right">Действия</TableCell></TableRow></TableHead>
-          <TableBody>
-            {auditories.map(a => {
-              const s = checkStatus(a.id)
-              return (
-                <TableRow key={a.id}>
-                  <TableCell>{a.name}</TableCell><TableCell>{a.capacity}</TableCell>
-                  <TableCell sx={{ color: s.busy ? 'error.main' : 'success.main', fontWeight: 'bold' }}>{s.msg}</TableCell>
-                  <TableCell align="right">
-                    <IconButton onClick={() => handleEditAuditory(a)}><Edit /></IconButton>
-                    <IconButton onClick={() => deleteItem('auditories', a.id)} color="error"><Delete /></IconButton>
-                  </TableCell>
+        {active === "mine" ? (
+          <>
+            <Typography variant="h5" gutterBottom sx={{ fontWeight: 'bold' }}>Мои бронирования</Typography>
+            <CalendarSubscription />
+            <MyBookings />
+          </>
+        ) : active === "bookings" ? (
+          <>
+            <Typography variant="h5" gutterBottom sx={{ fontWeight: 'bold' }}>Расписание аудиторий</Typography>
+            <BookingTimeline auditories={auditories} devices={devices} onChanged={loadData} />
+          </>
+        ) : (
+          <>
+            {/* Секция бронирования */}
+            <Typography variant="h5" gutterBottom sx={{ fontWeight: 'bold' }}>Бронирование</Typography>
+            <Paper sx={{ p: 3, mb: 4, display: 'flex', gap: 2, alignItems: 'center', bgcolor: '#f5f5f5' }}>
+              <TextField select label="Устройство" value={bookingForm.devId} onChange={e => setBookingForm({...bookingForm, devId: e.target.value})} sx={{ flex: 1 }}>
+                {devices.map(d => {
+                  const busy = busyDevices.includes(d.id)
+                  return <MenuItem key={d.id} value={d.id} disabled={busy}>{d.name}{busy && " — занято"}</MenuItem>
+                })}
+              </TextField>
+              {finder.on ? (<>
+                <TextField type="number" label="Участников" value={finder.people} onChange={e => setFinder({...finder, people: e.target.value})} sx={{ width: 120 }} />
+                <TextField
+                  select
+                  label="Оборудование"
+                  value={finder.equipment}
+                  onChange={e => setFinder({...finder, equipment: e.target.value as unknown as string[]})}
+                  SelectProps={{ multiple: true, renderValue: v => (v as string[]).map(equipmentLabel).join(', ') }}
+                  sx={{ flex: 1 }}
+                >
+                  {equipment.map(eq => <MenuItem key={eq.code} value={eq.code}>{eq.label}</MenuItem>)}
+                </TextField>
+              </>) : (
+                <TextField select label="Аудитория" value={bookingForm.audId} onChange={e => setBookingForm({...bookingForm, audId: e.target.value})} sx={{ flex: 1 }}>
+                  {auditories.map(a => <MenuItem key={a.id} value={a.id}>{a.name}</MenuItem>)}
+                </TextField>
+              )}
+              <TextField type="datetime-local" label="С" InputLabelProps={{ shrink: true }} value={bookingForm.start} onChange={e => setBookingForm({...bookingForm, start: e.target.value})} sx={{ flex: 1 }} />
+              <TextField type="datetime-local" label="До" InputLabelProps={{ shrink: true }} value={bookingForm.end} onChange={e => setBookingForm({...bookingForm, end: e.target.value})} sx={{ flex: 1 }} />
+              <TextField select label="Повтор" value={bookingForm.repeat} onChange={e => setBookingForm({...bookingForm, repeat: e.target.value})} sx={{ width: 160 }}>
+                <MenuItem value="">Не повторять</MenuItem>
+                <MenuItem value="daily">Ежедневно</MenuItem>
+                <MenuItem value="weekly">Еженедельно</MenuItem>
+              </TextField>
+              {bookingForm.repeat && (
+                <TextField type="date" label="Повторять до" InputLabelProps={{ shrink: true }} value={bookingForm.until} onChange={e => setBookingForm({...bookingForm, until: e.target.value})} sx={{ width: 170 }} />
+              )}
+              <Button onClick={() => setFinder({...finder, on: !finder.on})}>{finder.on ? "Выбрать вручную" : "Подобрать"}</Button>
+              <Button variant="contained" onClick={handleBooking} size="large">Занять</Button>
+            </Paper>
+            {finder.on && (
+              <Box sx={{ mt: -2, mb: 4 }}>
+                {!suggestions ? (
+                  <Typography variant="body2" color="text.secondary">Укажите время, чтобы увидеть свободные аудитории</Typography>
+                ) : suggestions.length === 0 ? (
+                  <Typography variant="body2" color="error">Нет аудиторий, свободных на всё время</Typography>
+                ) : (
+                  <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+                    {suggestions.map(a => (
+                      <Chip
+                        key={a.id}
+                        label={`${a.name} · ${a.capacity} мест`}
+                        color={bookingForm.audId === a.id ? "primary" : "default"}
+                        onClick={() => setBookingForm({...bookingForm, audId: a.id})}
+                      />
+                    ))}
+                  </Stack>
+                )}
+              </Box>
+            )}
+
+            {/* Таблица Устройств */}
+            <Typography variant="h6" gutterBottom>Устройства</Typography>
+            <Table sx={{ mb: 4 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Название</TableCell>
+                  {catalogEditable && <TableCell align="right">Действия</TableCell>}
                 </TableRow>
-              )
-            })}
-          </TableBody>
-        </Table>
-
-        <Divider sx={{ my: 4 }} />
-
-        {/* Админ-панель: быстрое добавление */}
-        <Box sx={{ display: 'flex', gap: 4, mb: 4 }}>
-          <Paper sx={{ p: 2, flex: 1 }}>
-            <Typography variant="subtitle1" gutterBottom>Добавить устройство</Typography>
-            <Box sx={{ display: 'flex', gap: 1 }}>
-              <TextField size="small" fullWidth placeholder="Название" value={newDevName} onChange={e => setNewDevName(e.target.value)} />
-              <Button variant="outlined" onClick={addDevice}><Add /></Button>
+              </TableHead>
+              <TableBody>
+                {devices.map(d => (
+                  <TableRow key={d.id}>
+                    <TableCell>{d.name}</TableCell>
+                    {catalogEditable && (
+                      <TableCell align="right">
+                        <IconButton onClick={() => handleEditDevice(d)}><Edit /></IconButton>
+                        <IconButton onClick={() => setArchiveTarget({ catalog: 'devices', id: d.id, name: d.name })} color="error"><Delete /></IconButton>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {/* Таблица Аудиторий */}
+            <Typography variant="h6" gutterBottom>Статус аудиторий</Typography>
+            <Table sx={{ mb: 4 }}>
+              <TableHead><TableRow><TableCell>Название</TableCell><TableCell>Мест</TableCell><TableCell>Оборудование</TableCell><TableCell>Текущее состояние</TableCell>{catalogEditable && <TableCell align="right">Действия</TableCell>}</TableRow></TableHead>
+              <TableBody>
+                {auditories.map(a => {
+                  const s = checkStatus(a.id)
+                  return (
+                    <TableRow key={a.id}>
+                      <TableCell>{a.name}</TableCell><TableCell>{a.capacity}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap">
+                          {(a.equipment ?? []).map(code => <Chip key={code} label={equipmentLabel(code)} size="small" variant="outlined" />)}
+                        </Stack>
+                      </TableCell>
+                      <TableCell sx={{ color: s.busy ? 'error.main' : 'success.main', fontWeight: 'bold' }}>{s.msg}</TableCell>
+                      {catalogEditable && (
+                        <TableCell align="right">
+                          <IconButton onClick={() => handleEditAuditory(a)}><Edit /></IconButton>
+                          <IconButton onClick={() => setArchiveTarget({ catalog: 'auditories', id: a.id, name: a.name })} color="error"><Delete /></IconButton>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+
+            <Divider sx={{ my: 4 }} />
+
+            {/* Админ-панель: быстрое добавление */}
+            {catalogEditable && (
+              <Box sx={{ display: 'flex', gap: 4, mb: 4 }}>
+                <Paper sx={{ p: 2, flex: 1 }}>
+                  <Typography variant="subtitle1" gutterBottom>Добавить устройство</Typography>
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <TextField size="small" fullWidth placeholder="Название" value={newDevName} onChange={e => setNewDevName(e.target.value)} />
+                    <Button variant="outlined" onClick={addDevice}><Add /></Button>
+                  </Box>
+                </Paper>
+                <Paper sx={{ p: 2, flex: 1 }}>
+                  <Typography variant="subtitle1" gutterBottom>Добавить аудиторию</Typography>
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <TextField size="small" placeholder="Номер" value={newAud.code} onChange={e => setNewAud({...newAud, code: e.target.value})} sx={{ width: 90 }} />
+                    <TextField size="small" placeholder="Имя" value={newAud.name} onChange={e => setNewAud({...newAud, name: e.target.value})} />
+                    <TextField size="small" type="number" placeholder="Мест" value={newAud.cap} onChange={e => setNewAud({...newAud, cap: Number(e.target.value)})} sx={{ width: 80 }} />
+                    <TextField
+                      select
+                      size="small"
+                      label="Оборудование"
+                      value={newAud.equipment}
+                      onChange={e => setNewAud({...newAud, equipment: e.target.value as unknown as string[]})}
+                      SelectProps={{ multiple: true, renderValue: v => (v as string[]).map(equipmentLabel).join(', ') }}
+                      sx={{ flex: 1 }}
+                    >
+                      {equipment.map(eq => <MenuItem key={eq.code} value={eq.code}>{eq.label}</MenuItem>)}
+                    </TextField>
+                    <FormControlLabel
+                      control={<Checkbox size="small" checked={newAud.requiresApproval} onChange={e => setNewAud({...newAud, requiresApproval: e.target.checked})} />}
+                      label="С подтверждением"
+                    />
+                    <Button variant="outlined" onClick={addAuditory}><Add /></Button>
+                  </Box>
+                </Paper>
+              </Box>
+            )}
+            {catalogEditable && <EquipmentAdmin items={equipment} onChanged={loadData} />}
+            {catalogEditable && <CatalogCsv onImported={loadData} />}
+            {catalogEditable && <ArchivedCatalog onRestored={loadData} />}
+            {catalogEditable && (
+              <MaintenanceAdmin items={maintenance} auditories={auditories} devices={devices} onChanged={loadData} />
+            )}
+            {bookingsEditable && <TimetableImport onImported={loadData} />}
+            {bookingsEditable && <NoShowStats />}
+            {bookingsEditable && <ApprovalQueue onDecided={loadJournal} />}
+
+            {/* Журнал бронирований */}
+            <Typography variant="h6" gutterBottom>Журнал</Typography>
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              <TextField size="small" label="Поиск" value={journalFilter.q} onChange={e => filterJournal({ q: e.target.value })} sx={{ flex: 1 }} />
+              <TextField select size="small" label="Аудитория" value={journalFilter.auditoryId} onChange={e => filterJournal({ auditoryId: e.target.value })} sx={{ width: 180 }}>
+                <MenuItem value="">Все</MenuItem>
+                {auditories.map(a => <MenuItem key={a.id} value={a.id}>{a.name}</MenuItem>)}
+              </TextField>
+              <TextField select size="small" label="Устройство" value={journalFilter.deviceId} onChange={e => filterJournal({ deviceId: e.target.value })} sx={{ width: 180 }}>
+                <MenuItem value="">Все</MenuItem>
+                {devices.map(d => <MenuItem key={d.id} value={d.id}>{d.name}</MenuItem>)}
+              </TextField>
+              <TextField select size="small" label="Статус" value={journalFilter.status} onChange={e => filterJournal({ status: e.target.value })} sx={{ width: 180 }}>
+                <MenuItem value="">Все</MenuItem>
+                {Object.entries(BOOKING_STATUS).map(([id, s]) => <MenuItem key={id} value={id}>{s.label}</MenuItem>)}
+              </TextField>
+              <TextField type="datetime-local" size="small" label="С" InputLabelProps={{ shrink: true }} value={journalFilter.from} onChange={e => filterJournal({ from: e.target.value })} />
+              <TextField type="datetime-local" size="small" label="По" InputLabelProps={{ shrink: true }} value={journalFilter.to} onChange={e => filterJournal({ to: e.target.value })} />
+              <Button href={csvExportUrl('bookings.csv', new URLSearchParams(journalFilters))} startIcon={<Download />}>CSV</Button>
             </Box>
-          </Paper>
-          <Paper sx={{ p: 2, flex: 1 }}>
-            <Typography variant="subtitle1" gutterBottom>Добавить аудиторию</Typography>
-            <Box sx={{ display: 'flex', gap: 1 }}>
-              <TextField size="small" placeholder="Имя" value={newAud.name} onChange={e => setNewAud({...newAud, name: e.target.value})} />
-              <TextField size="small" type="number" placeholder="Мест" value={newAud.cap} onChange={e => setNewAud({...newAud, cap: Number(e.target.value)})} sx={{ width: 80 }} />
-              <Button variant="outlined" onClick={addAuditory}><Add /></Button>
-            </Box>
-          </Paper>
-        </Box>
-
-        {/* Журнал бронирований */}
-        <Typography variant="h6" gutterBottom>Журнал</Typography>
-        <Table>
-          <TableHead>
-            <TableRow>
-              <TableCell>Устройство</TableCell>
-              <TableCell>Аудитория</TableCell>
-              <TableCell>Начало</TableCell>
-              <TableCell>Окончание</TableCell>
-              <TableCell align="right">Действия</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {bookings.map(b => (
-              <TableRow key={b.id}>
-                <TableCell>{b.device?.name}</TableCell>
-                <TableCell>{b.auditory?.name}</TableCell>
-                <TableCell>{new Date(b.startTime).toLocaleString()}</TableCell>
-                <TableCell>{new Date(b.endTime).toLocaleString()}</TableCell>
-                <TableCell align="right">
-                  <IconButton onClick={() => handleEditBooking(b)}><Edit /></IconButton>
-                  <IconButton onClick={() => deleteItem('bookings', b.id)} color="error"><Delete /></IconButton>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Устройство</TableCell>
+                  <TableCell>Аудитория</TableCell>
+                  <TableCell>Кто</TableCell>
+                  <TableCell>Начало</TableCell>
+                  <TableCell>Окончание</TableCell>
+                  <TableCell>Статус</TableCell>
+                  {isAuthenticated && <TableCell align="right">Действия</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {journal.items.map(b => (
+                  <TableRow key={b.id}>
+                    <TableCell>{b.device?.name}</TableCell>
+                    <TableCell>
+                      {b.auditory?.name}
+                      {b.seriesId && <Repeat fontSize="inherit" titleAccess="Повторяющееся" sx={{ ml: 0.5, verticalAlign: 'middle', color: 'text.secondary' }} />}
+                    </TableCell>
+                    <TableCell>{b.user?.name || b.user?.email || '—'}</TableCell>
+                    <TableCell>{new Date(b.startTime).toLocaleString()}</TableCell>
+                    <TableCell>{new Date(b.endTime).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={BOOKING_STATUS[b.status].label}
+                        color={BOOKING_STATUS[b.status].color}
+                        title={b.decisionReason ?? undefined}
+                      />
+                    </TableCell>
+                    {isAuthenticated && (
+                      <TableCell align="right">
+                        {(bookingsEditable || b.userId === user?.id) && (<>
+                          <IconButton onClick={() => handleEditBooking(b)}><Edit /></IconButton>
+                          <IconButton onClick={() => deleteBooking(b)} color="error"><Delete /></IconButton>
+                        </>)}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TablePagination
+              component="div"
+              count={journal.total}
+              page={journalPage.page}
+              rowsPerPage={journalPage.pageSize}
+              rowsPerPageOptions={[10, 25, 50]}
+              onPageChange={(_, page) => setJournalPage({ ...journalPage, page })}
+              onRowsPerPageChange={e => setJournalPage({ page: 0, pageSize: Number(e.target.value) })}
+              labelRowsPerPage="Строк на странице"
+              labelDisplayedRows={({ from, to, count }) => `${from}–${to} из ${count}`}
+            />
+          </>
+        )}
       </Container>
 
       {/* Диалог редактирования устройства */}
@@ -327,6 +691,12 @@ function App() {
       <Dialog open={editAuditoryOpen} onClose={() => setEditAuditoryOpen(false)}>
         <DialogTitle>Редактировать аудиторию</DialogTitle>
         <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 2 }}>
+          <TextField 
+            label="Номер" 
+            value={editingAuditory?.code || ''} 
+            onChange={e => setEditingAuditory({...editingAuditory!, code: e.target.value})} 
+            fullWidth 
+          />
           <TextField 
             label="Название" 
             value={editingAuditory?.name || ''} 
@@ -340,6 +710,25 @@ function App() {
             onChange={e => setEditingAuditory({...editingAuditory!, capacity: Number(e.target.value)})} 
             fullWidth 
           />
+          <TextField 
+            select 
+            label="Оборудование" 
+            value={editingAuditory?.equipment ?? []} 
+            onChange={e => setEditingAuditory({...editingAuditory!, equipment: e.target.value as unknown as string[]})} 
+            SelectProps={{ multiple: true, renderValue: v => (v as string[]).map(equipmentLabel).join(', ') }} 
+            fullWidth 
+          >
+            {equipment.map(eq => <MenuItem key={eq.code} value={eq.code}>{eq.label}</MenuItem>)}
+          </TextField>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={editingAuditory?.requiresApproval ?? false}
+                onChange={e => setEditingAuditory({...editingAuditory!, requiresApproval: e.target.checked})}
+              />
+            }
+            label="Бронирование только с подтверждением"
+          />
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setEditAuditoryOpen(false)}>Отмена</Button>
@@ -351,7 +740,6 @@ function App() {
       <Dialog open={editBookingOpen} onClose={() => setEditBookingOpen(false)}>
         <DialogTitle>Редактировать бронирование</DialogTitle>
         <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 2 }}>
-          <Typography>Начало: {editingBooking && new Date(editingBooking.startTime).toLocaleString()}</Typography>
           <TextField 
             select 
             label="Устройство" 
@@ -370,6 +758,14 @@ function App() {
           >
             {auditories.map(a => <MenuItem key={a.id} value={a.id}>{a.name}</MenuItem>)}
           </TextField>
+          <TextField 
+            type="datetime-local" 
+            label="Начало" 
+            value={editingBooking ? getLocalDatetime(editingBooking.startTime) : ''} 
+            onChange={e => setEditingBooking({...editingBooking!, startTime: new Date(e.target.value).toISOString()})} 
+            InputLabelProps={{ shrink: true }} 
+            fullWidth 
+          />
           <TextField 
             type="datetime-local" 
             label="Окончание" 
@@ -378,12 +774,42 @@ function App() {
             InputLabelProps={{ shrink: true }} 
             fullWidth 
           />
+          {editingBooking && (
+            <Box sx={{ maxHeight: 240, overflowY: 'auto' }}>
+              <Typography variant="subtitle2" gutterBottom>История</Typography>
+              <AuditHistory
+                entity="booking"
+                id={editingBooking.id}
+                fields={BOOKING_HISTORY_FIELDS}
+                formatValue={(field, value) =>
+                  field === 'auditoryId' ? auditories.find(a => a.id === value)?.name
+                  : field === 'deviceId' ? devices.find(d => d.id === value)?.name
+                  : field === 'status' ? BOOKING_STATUS[value as BookingStatus]?.label
+                  : undefined}
+              />
+            </Box>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setEditBookingOpen(false)}>Отмена</Button>
           <Button onClick={saveBooking} variant="contained">Сохранить</Button>
         </DialogActions>
       </Dialog>
+
+      <ArchiveDialog target={archiveTarget} onClose={() => setArchiveTarget(null)} onDone={loadData} />
+
+      {/* Выбор области действия для занятия из серии */}
+      <Dialog open={!!scopePrompt} onClose={() => answerScope(null)}>
+        <DialogTitle>{scopePrompt?.title}</DialogTitle>
+        <DialogContent>
+          <Typography>Бронирование входит в повторяющуюся серию.</Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => answerScope(null)}>Отмена</Button>
+          <Button onClick={() => answerScope("occurrence")}>Только это занятие</Button>
+          <Button onClick={() => answerScope("series")} variant="contained">Вся серия</Button>
+        </DialogActions>
+      </Dialog>
     </>
   )
 }
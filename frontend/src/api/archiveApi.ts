@@ -0,0 +1,40 @@
+import { api } from "./client";
+import type { ArchiveImpact, Auditory, Device } from "./schema.gen";
+
+export type ArchiveCatalog = "devices" | "auditories";
+
+export async function fetchArchived(catalog: ArchiveCatalog): Promise<(Device | Auditory)[]> {
+  const query = { archived: true, pageSize: 500 };
+  const page = catalog === "devices"
+    ? await api("get", "/api/devices", { query })
+    : await api("get", "/api/auditories", { query });
+  return page.items;
+}
+
+// bookings — сколько броней у записи за всё время (с ними удалить её нельзя), upcoming — ещё не начавшиеся
+export async function fetchArchiveImpact(catalog: ArchiveCatalog, id: string): Promise<ArchiveImpact> {
+  const params = { id };
+  return catalog === "devices"
+    ? api("get", "/api/devices/{id}/impact", { params })
+    : api("get", "/api/auditories/{id}/impact", { params });
+}
+
+// cancelUpcoming — отменить будущие брони; без него архивирование с такими бронями отклоняется (409)
+export async function archiveCatalogItem(catalog: ArchiveCatalog, id: string, cancelUpcoming = false): Promise<void> {
+  const options = { params: { id }, body: { cancelUpcoming } };
+  if (catalog === "devices") await api("post", "/api/devices/{id}/archive", options);
+  else await api("post", "/api/auditories/{id}/archive", options);
+}
+
+export async function restoreCatalogItem(catalog: ArchiveCatalog, id: string): Promise<void> {
+  const params = { id };
+  if (catalog === "devices") await api("post", "/api/devices/{id}/restore", { params });
+  else await api("post", "/api/auditories/{id}/restore", { params });
+}
+
+// Удалить совсем можно только запись без броней, иначе 409
+export async function deleteCatalogItem(catalog: ArchiveCatalog, id: string): Promise<void> {
+  const params = { id };
+  if (catalog === "devices") await api("delete", "/api/devices/{id}", { params });
+  else await api("delete", "/api/auditories/{id}", { params });
+}
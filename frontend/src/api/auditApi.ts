@@ -0,0 +1,12 @@
+import { api } from "./client";
+import type { AuditEntry, AuditPage } from "./schema.gen";
+
+export type AuditEntity = AuditEntry["entity"];
+export type AuditAction = AuditEntry["action"];
+
+// История одной записи, новые изменения сверху.
+// before — состояние до изменения (нет у созданной записи), after — после (нет у удалённой);
+// actorId = null — изменение сделала система, например сняла бронь из-за неявки.
+export async function fetchAudit(entity: AuditEntity, id: string): Promise<AuditPage> {
+  return api("get", "/api/audit", { query: { entity, id } });
+}
@@ -0,0 +1,38 @@
+import { http } from "./http";
+import { api, type RequestBody } from "./client";
+import type { User } from "./schema.gen";
+
+export type Role = User["role"];
+export type LoginBody = RequestBody<"/api/auth/login", "post">;
+export type RegisterBody = RequestBody<"/api/auth/register", "post">;
+
+// 401 здесь — не ошибка, а «гость»: возвращаем null. Запрос идёт мимо api(), чтобы 401 не считался сбоем
+export async function fetchMe(): Promise<User | null> {
+  const res = await http.get<User>("/auth/me", { validateStatus: (s) => s === 200 || s === 401 });
+  return res.status === 200 ? res.data : null;
+}
+
+export async function login(body: LoginBody): Promise<User> {
+  return api("post", "/api/auth/login", { body });
+}
+
+export async function register(body: RegisterBody): Promise<User> {
+  return api("post", "/api/auth/register", { body });
+}
+
+export async function logout(): Promise<void> {
+  await api("post", "/api/auth/logout");
+}
+
+// Новый секрет подписки на календарь; ссылки со старым секретом перестают работать
+export async function rotateCalendarToken(): Promise<string> {
+  const { token } = await api("post", "/api/auth/calendar-token");
+  return token;
+}
+
+// Ссылка на ленту .ics, которую можно добавить в календарь без входа в систему
+export function calendarFeedUrl(userId: string, token: string): string {
+  const url = new URL(`${http.defaults.baseURL}/users/${userId}/calendar.ics`, window.location.origin);
+  url.searchParams.set("token", token);
+  return url.toString();
+}
@@ -0,0 +1,63 @@
+import { api } from "./client";
+import type { Booking, BookingPage, ImportedEvent, NoShowStats, TimetableImportReport } from "./schema.gen";
+
+// pending — заявка в аудиторию с подтверждением, rejected — отклонённая заявка (обе аудиторию не занимают);
+// booked — ждёт отметки о приходе, no_show — снята, потому что никто не отметился
+export type BookingStatus = Booking["status"];
+
+// Свои брони целиком, одной страницей максимального размера
+export async function fetchMyBookings(): Promise<Booking[]> {
+  const page = await api("get", "/api/bookings", { query: { mine: true, pageSize: 500 } });
+  return page.items;
+}
+
+// Все брони, пересекающиеся с окном (не длиннее 31 дня) — для таймлайна
+export async function fetchBookingsRange(from: string, to: string): Promise<Booking[]> {
+  return api("get", "/api/bookings/range", { query: { from, to } });
+}
+
+// Одиночная бронь: без recurrence сервер возвращает саму бронь, а не серию
+export async function createBooking(body: { deviceId: string; auditoryId: string; startTime: string; endTime: string }): Promise<Booking> {
+  return await api("post", "/api/bookings", { body }) as Booking;
+}
+
+// Перенос одной брони: без scope=series занятие серии переносится отдельно и сервер возвращает его самого
+export async function updateBooking(id: string, body: { startTime?: string; endTime?: string }): Promise<Booking> {
+  return await api("put", "/api/bookings/{id}", { params: { id }, body }) as Booking;
+}
+
+export async function cancelBooking(id: string): Promise<void> {
+  await api("delete", "/api/bookings/{id}", { params: { id } });
+}
+
+// Очередь на подтверждение: ближайшие заявки первыми
+export async function fetchPendingBookings(): Promise<BookingPage> {
+  return api("get", "/api/bookings", { query: { status: "pending", sort: "startTime", order: "asc", pageSize: 100 } });
+}
+
+export type SeriesScope = "occurrence" | "series";
+
+export async function approveBooking(id: string, reason?: string, scope?: SeriesScope): Promise<void> {
+  await api("post", "/api/bookings/{id}/approve", { params: { id }, query: { scope }, body: { reason } });
+}
+
+export async function rejectBooking(id: string, reason: string, scope?: SeriesScope): Promise<void> {
+  await api("post", "/api/bookings/{id}/reject", { params: { id }, query: { scope }, body: { reason } });
+}
+
+// Отметка о приходе — в течение окна после начала брони, иначе бронь снимается
+export async function checkInBooking(id: string): Promise<Booking> {
+  return api("post", "/api/bookings/{id}/check-in", { params: { id } });
+}
+
+// rate — доля неявок среди отмеченных и снятых броней
+export async function fetchNoShowStats(from?: string): Promise<NoShowStats[]> {
+  return api("get", "/api/users/no-shows", { query: { from } });
+}
+
+export type ImportStatus = ImportedEvent["status"];
+
+// Без commit сервер только проверяет файл и возвращает отчёт по событиям
+export async function importTimetable(ics: string, commit: boolean): Promise<TimetableImportReport> {
+  return api("post", "/api/bookings/import", { query: { commit }, body: ics, headers: { "Content-Type": "text/calendar" } });
+}
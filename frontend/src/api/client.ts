@@ -0,0 +1,55 @@
+import type { AxiosRequestConfig } from "axios";
+import { http } from "./http";
+import type { paths } from "./schema.gen";
+
+// Типизированный вызов API по сгенерированному из OpenAPI описанию (schema.gen.ts):
+// путь, метод, параметры, тело и тип ответа проверяются компилятором.
+// Ошибки — как у остальных запросов через axios: problem+json в e.response.data (см. errorMessage).
+
+type Path = keyof paths;
+type HttpMethod = "get" | "post" | "put" | "delete";
+// Методы, которых у пути нет, в описании помечены never
+type Method<P extends Path> = { [M in HttpMethod]: [NonNullable<paths[P][M]>] extends [never] ? never : M }[HttpMethod];
+type Operation<P extends Path, M extends Method<P>> = NonNullable<paths[P][M]>;
+
+type PathParams<O> = O extends { parameters: { path: infer X } } ? X : never;
+type Query<O> = O extends { parameters: { query?: infer X } } ? NonNullable<X> : never;
+// Тело обязательно, даже если все его поля необязательны: без тела запрос не пройдёт проверку схемы
+type Body<O> = O extends { requestBody?: infer B }
+  ? [NonNullable<B>] extends [never] ? never : NonNullable<B> extends { content: infer C } ? C[keyof C] : never
+  : never;
+// Успешный ответ: JSON — по схеме, файлы (CSV, iCalendar) — строкой, 204 — без содержимого
+type Content<R> = R extends { content: infer C } ? C[keyof C] : void;
+type Response<O> = O extends { responses: infer R } ? { [S in keyof R]: S extends 200 | 201 | 204 ? Content<R[S]> : never }[keyof R] : never;
+
+type Options<O> =
+  ([PathParams<O>] extends [never] ? unknown : { params: PathParams<O> }) &
+  ([Query<O>] extends [never] ? unknown : O extends { parameters: { query: object } } ? { query: Query<O> } : { query?: Query<O> }) &
+  ([Body<O>] extends [never] ? unknown : { body: Body<O> }) &
+  // Заголовки — для тел не в JSON: импорт CSV и iCalendar
+  Pick<AxiosRequestConfig, "headers">;
+
+// Тело запроса операции — для функций API-модулей, которые принимают его целиком
+export type RequestBody<P extends Path, M extends Method<P>> = Body<Operation<P, M>>;
+
+// Если у операции нет обязательных параметров и тела, options можно не передавать
+type OptionsArg<O> = Record<string, never> extends Options<O> ? [options?: Options<O>] : [options: Options<O>];
+
+interface RequestParts {
+  params?: Record<string, string>;
+  query?: object;
+  body?: unknown;
+  headers?: AxiosRequestConfig["headers"];
+}
+
+export async function api<P extends Path, M extends Method<P>>(
+  method: M,
+  path: P,
+  ...[options]: OptionsArg<Operation<P, M>>
+): Promise<Response<Operation<P, M>>> {
+  const { params = {}, query, body, headers } = (options ?? {}) as RequestParts;
+  // Пути в описании начинаются с /api — его уже содержит baseURL клиента http
+  const url = path.replace(/^\/api/, "").replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(params[name] ?? ""));
+  const { data } = await http.request({ method, url, params: query, data: body, headers });
+  return data;
+}
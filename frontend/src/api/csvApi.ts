@@ -0,0 +1,20 @@
+import { http } from "./http";
+import { api } from "./client";
+import type { CsvImportReport } from "./schema.gen";
+
+export type CsvCatalog = "devices" | "auditories";
+
+// В отчёте row — номер строки файла, считая заголовок
+export async function importCatalogCsv(catalog: CsvCatalog, csv: string): Promise<CsvImportReport> {
+  const options = { body: csv, headers: { "Content-Type": "text/csv" } };
+  return catalog === "devices"
+    ? api("post", "/api/devices/import", options)
+    : api("post", "/api/auditories/import", options);
+}
+
+// Выгрузки открываются обычной ссылкой, поэтому нужен абсолютный адрес API
+export function csvExportUrl(path: string, params?: URLSearchParams): string {
+  const url = new URL(`${http.defaults.baseURL}/${path}`, window.location.origin);
+  params?.forEach((value, key) => url.searchParams.set(key, value));
+  return url.toString();
+}
@@ -0,0 +1,18 @@
+import { api, type RequestBody } from "./client";
+import type { Equipment } from "./schema.gen";
+
+export async function fetchEquipment(): Promise<Equipment[]> {
+  return api("get", "/api/equipment");
+}
+
+export async function createEquipment(body: RequestBody<"/api/equipment", "post">): Promise<Equipment> {
+  return api("post", "/api/equipment", { body });
+}
+
+export async function updateEquipment(id: string, body: RequestBody<"/api/equipment/{id}", "put">): Promise<Equipment> {
+  return api("put", "/api/equipment/{id}", { params: { id }, body });
+}
+
+export async function deleteEquipment(id: string): Promise<void> {
+  await api("delete", "/api/equipment/{id}", { params: { id } });
+}
@@ -1,12 +1,15 @@
 import axios from "axios";
+import { API_URL } from "@/config";
 
 export const http = axios.create({
-  baseURL: "/api",
+  baseURL: API_URL || "/api",
   timeout: 10_000,
   headers: { "Content-Type": "application/json" },
+  // cookie сессии нужна и при запросах на другой домен (прод на onrender)
+  withCredentials: true,
 });
 
 http.interceptors.response.use(
   (r) => r,
   (err) => { console.error("HTTP error:", err); throw err; }
-);
\ No newline at end of file
+);
@@ -0,0 +1,74 @@
+import { http } from "./http";
+
+// bulk — массовое изменение (серия, импорт): список проще перечитать целиком
+export interface LiveEventDto {
+  entity: "booking" | "device" | "auditory" | "maintenance";
+  action: "created" | "updated" | "deleted" | "bulk";
+  id?: string;
+  data?: unknown;
+}
+
+const ENTITIES: readonly string[] = ["booking", "device", "auditory", "maintenance"] satisfies LiveEventDto["entity"][];
+const ACTIONS: readonly string[] = ["created", "updated", "deleted", "bulk"] satisfies LiveEventDto["action"][];
+
+const RECONNECT_MS = 3000;
+
+// Одно соединение на вкладку: подписчики только добавляют обработчики.
+// Сокет открывается с первым подписчиком и закрывается, когда отписался последний.
+const listeners = new Set<(event: LiveEventDto) => void>();
+let socket: WebSocket | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+// Кадр не в JSON или с незнакомой сущностью/действием (более новый сервер) пропускаем
+function parseEvent(data: unknown): LiveEventDto | null {
+  if (typeof data !== "string") return null;
+  try {
+    const event: unknown = JSON.parse(data);
+    if (typeof event !== "object" || event === null) return null;
+    const { entity, action } = event as Record<string, unknown>;
+    return typeof entity === "string" && ENTITIES.includes(entity) && typeof action === "string" && ACTIONS.includes(action)
+      ? (event as LiveEventDto)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function connect() {
+  const url = new URL(`${http.defaults.baseURL}/events`, window.location.origin);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  const current = new WebSocket(url);
+  socket = current;
+  current.onmessage = (message) => {
+    const event = parseEvent(message.data);
+    if (!event) return;
+    // Ошибка одного подписчика не должна лишать событий остальных
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  };
+  current.onclose = () => {
+    if (socket === current && listeners.size > 0) timer = setTimeout(connect, RECONNECT_MS);
+  };
+}
+
+// Подписка на изменения, сделанные другими пользователями. При обрыве соединение восстанавливается;
+// возвращает функцию отписки для useEffect.
+export function subscribeLiveEvents(onEvent: (event: LiveEventDto) => void): () => void {
+  // Своя обёртка на каждую подписку: один и тот же обработчик можно подписать дважды
+  const listener = (event: LiveEventDto) => onEvent(event);
+  listeners.add(listener);
+  if (!socket) connect();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+    clearTimeout(timer);
+    const current = socket;
+    socket = null;
+    current?.close();
+  };
+}
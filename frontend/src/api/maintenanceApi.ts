@@ -0,0 +1,16 @@
+import { api, type RequestBody } from "./client";
+import type { CreatedMaintenance, Maintenance } from "./schema.gen";
+
+// Периоды обслуживания, пересекающиеся с окном; без окна — текущие и будущие
+export async function fetchMaintenance(range?: { from?: string; to?: string }): Promise<Maintenance[]> {
+  return api("get", "/api/maintenance", { query: range });
+}
+
+// В ответе — ещё и брони, которые пересекаются с новым периодом (affectedBookings)
+export async function createMaintenance(body: RequestBody<"/api/maintenance", "post">): Promise<CreatedMaintenance> {
+  return api("post", "/api/maintenance", { body });
+}
+
+export async function deleteMaintenance(id: string): Promise<void> {
+  await api("delete", "/api/maintenance/{id}", { params: { id } });
+}
@@ -0,0 +1,22 @@
+import { api } from "./client";
+import type { Notification, NotificationPage, RoomWatch } from "./schema.gen";
+
+export type NotificationKind = Notification["kind"];
+
+// unread в ответе — число непрочитанных всего, независимо от страницы
+export async function fetchNotifications(query?: { unread?: boolean; page?: number }): Promise<NotificationPage> {
+  return api("get", "/api/notifications", { query });
+}
+
+export async function markNotificationRead(id: string): Promise<void> {
+  await api("post", "/api/notifications/{id}/read", { params: { id } });
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  await api("post", "/api/notifications/read-all");
+}
+
+// Ожидание занятой аудитории: уведомление придёт, когда весь интервал освободится
+export async function createRoomWatch(body: { auditoryId: string; startTime: string; endTime: string }): Promise<RoomWatch> {
+  return api("post", "/api/watches", { body });
+}
@@ -0,0 +1,43 @@
+import axios from "axios";
+
+// Ошибка API в формате RFC 9457 (application/problem+json). Помимо стандартных полей сервер
+// добавляет расширения: errors — ошибки по полям запроса, conflicts/occurrences — пересекающиеся брони.
+export interface FieldErrorDto {
+  pointer: string;
+  detail: string;
+}
+
+export interface ProblemDto {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: FieldErrorDto[];
+  [extension: string]: unknown;
+}
+
+// /body/recurrence/until → recurrence.until
+const fieldName = (pointer: string) => pointer.split("/").slice(2).join(".") || pointer;
+
+// Текст для пользователя: detail (или title), а для ошибок валидации — ещё и построчно по полям
+export function problemText(problem: Partial<ProblemDto> | null | undefined, fallback = "Ошибка"): string {
+  if (!problem) return fallback;
+  const fields = problem.errors ?? [];
+  if (fields.length > 0) return [problem.title || fallback, ...fields.map((e) => `${fieldName(e.pointer)}: ${e.detail}`)].join("\n");
+  return problem.detail || problem.title || fallback;
+}
+
+// Общий разбор пойманной ошибки: ответ API через axios или обычное исключение (сеть, fetch)
+export function errorMessage(e: unknown, fallback = "Ошибка"): string {
+  if (axios.isAxiosError(e) && e.response?.data && typeof e.response.data === "object") {
+    return problemText(e.response.data as ProblemDto, fallback);
+  }
+  return (e instanceof Error && e.message) || fallback;
+}
+
+// Тело неуспешного ответа fetch; если сервер не прислал JSON — problem по статусу
+export async function readProblem(res: Response): Promise<ProblemDto> {
+  const body = await res.json().catch(() => null);
+  return body && typeof body === "object" ? body : { type: "about:blank", title: res.statusText || "Ошибка", status: res.status };
+}
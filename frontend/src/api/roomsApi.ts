@@ -1,23 +1,8 @@
-import { http } from "./http";
+import { api } from "./client";
+import type { Room, RoomPage } from "./schema.gen";
 
-export type RoomStatus = "available" | "booked" | "maintenance";
+export type RoomStatus = Room["status"];
 
-export interface RoomDto {
-  id: string;
-  code: string;
-  name: string;
-  capacity: number;
-  equipment: string[];
-  status: RoomStatus;
+export async function fetchRooms(page = 1): Promise<RoomPage> {
+  return api("get", "/api/rooms", { query: { page } });
 }
-
-export interface RoomsResponseDto {
-  items: RoomDto[];
-  page: number;
-  total: number;
-}
-
-export async function fetchRooms(page = 1): Promise<RoomsResponseDto> {
-  const { data } = await http.get<RoomsResponseDto>("/rooms", { params: { page } });
-  return data;
-}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Paper, Typography, Table, TableHead, TableRow, TableCell, TableBody, Button, Box
+} from "@mui/material";
+import { Repeat } from "@mui/icons-material";
+import {
+  fetchPendingBookings, approveBooking, rejectBooking, type SeriesScope
+} from "@/api/bookingsApi";
+import { subscribeLiveEvents } from "@/api/liveEvents";
+import { errorMessage } from "@/api/problem";
+import type { Booking } from "@/api/schema.gen";
+
+// Очередь заявок в аудитории с подтверждением. Для занятия серии решение можно применить ко всей серии.
+export function ApprovalQueue({ onDecided }: { onDecided: () => void }) {
+  const [items, setItems] = useState<Booking[]>([]);
+  const [total, setTotal] = useState(0);
+
+  const load = useCallback(async () => {
+    try {
+      const page = await fetchPendingBookings();
+      setItems(page.items);
+      setTotal(page.total);
+    } catch (e) {
+      console.error(e);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+  // Новые заявки и решения других подтверждающих приходят через канал событий
+  useEffect(() => subscribeLiveEvents((event) => { if (event.entity === "booking") load(); }), [load]);
+
+  const scopeFor = (b: Booking): SeriesScope | undefined =>
+    b.seriesId && confirm("Применить решение ко всем ожидающим занятиям серии?") ? "series" : undefined;
+
+  const approve = async (b: Booking) => {
+    try {
+      await approveBooking(b.id, undefined, scopeFor(b));
+      await load();
+      onDecided();
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  const reject = async (b: Booking) => {
+    const reason = prompt("Причина отклонения")?.trim();
+    if (!reason) return;
+    try {
+      await rejectBooking(b.id, reason, scopeFor(b));
+      await load();
+      onDecided();
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  if (total === 0) return null;
+
+  return (
+    <Paper sx={{ p: 2, mb: 4 }}>
+      <Typography variant="subtitle1" gutterBottom>Заявки на подтверждение ({total})</Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Аудитория</TableCell>
+            <TableCell>Кто</TableCell>
+            <TableCell>Начало</TableCell>
+            <TableCell>Окончание</TableCell>
+            <TableCell align="right">Решение</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((b) => (
+            <TableRow key={b.id}>
+              <TableCell>
+                {b.auditory?.name}
+                {b.seriesId && <Repeat fontSize="inherit" titleAccess="Повторяющееся" sx={{ ml: 0.5, verticalAlign: "middle", color: "text.secondary" }} />}
+              </TableCell>
+              <TableCell>{b.user ? (b.user.name || b.user.email) : "—"}</TableCell>
+              <TableCell>{new Date(b.startTime).toLocaleString()}</TableCell>
+              <TableCell>{new Date(b.endTime).toLocaleString()}</TableCell>
+              <TableCell align="right">
+                <Box sx={{ display: "flex", gap: 1, justifyContent: "flex-end" }}>
+                  <Button size="small" variant="contained" onClick={() => approve(b)}>Одобрить</Button>
+                  <Button size="small" color="error" onClick={() => reject(b)}>Отклонить</Button>
+                </Box>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography, List, ListItem, ListItemText
+} from "@mui/material";
+import {
+  fetchArchiveImpact, archiveCatalogItem, deleteCatalogItem, type ArchiveCatalog
+} from "@/api/archiveApi";
+import { errorMessage } from "@/api/problem";
+import type { ArchiveImpact } from "@/api/schema.gen";
+
+// Сколько будущих броней перечислять в диалоге; остальные — числом
+const MAX_LISTED = 10;
+
+export interface ArchiveTarget {
+  catalog: ArchiveCatalog;
+  id: string;
+  name: string;
+}
+
+// Удаление устройства или аудитории. Сначала показывается, что затронет операция: запись без броней
+// можно удалить совсем, с бронями — только отправить в архив, а будущие брони при этом придётся отменить.
+export function ArchiveDialog({
+  target,
+  onClose,
+  onDone,
+}: {
+  target: ArchiveTarget | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const [impact, setImpact] = useState<ArchiveImpact | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setImpact(null);
+    if (!target) return;
+    fetchArchiveImpact(target.catalog, target.id)
+      .then(setImpact)
+      .catch((e) => alert(errorMessage(e)));
+  }, [target]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      onDone();
+      onClose();
+    } catch (e) {
+      alert(errorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const upcoming = impact?.upcoming ?? [];
+
+  return (
+    <Dialog open={!!target} onClose={onClose}>
+      <DialogTitle>Удалить «{target?.name}»</DialogTitle>
+      <DialogContent>
+        {!impact ? (
+          <Typography color="text.secondary">Проверяем бронирования…</Typography>
+        ) : impact.bookings === 0 ? (
+          <Typography>Бронирований нет: запись можно удалить совсем или отправить в архив.</Typography>
+        ) : (
+          <>
+            <Typography gutterBottom>
+              Бронирований за всё время: {impact.bookings}. Удалить запись нельзя — её можно отправить в архив:
+              она пропадёт из списков и выбора, а история бронирований сохранится.
+            </Typography>
+            {upcoming.length > 0 && (
+              <>
+                <Typography color="error" sx={{ mt: 1 }}>
+                  Будущие бронирования ({upcoming.length}) будут отменены, владельцы получат уведомление:
+                </Typography>
+                <List dense>
+                  {upcoming.slice(0, MAX_LISTED).map((b) => (
+                    <ListItem key={b.id} disableGutters>
+                      <ListItemText
+                        primary={`${new Date(b.startTime).toLocaleString()} — ${new Date(b.endTime).toLocaleString()}`}
+                        secondary={[b.auditory?.name, b.device?.name, b.user?.name || b.user?.email].filter(Boolean).join(" · ")}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+                {upcoming.length > MAX_LISTED && (
+                  <Typography variant="body2" color="text.secondary">…и ещё {upcoming.length - MAX_LISTED}</Typography>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Отмена</Button>
+        {impact && impact.bookings === 0 && (
+          <Button color="error" disabled={busy} onClick={() => run(() => deleteCatalogItem(target!.catalog, target!.id))}>
+            Удалить совсем
+          </Button>
+        )}
+        {impact && (
+          <Button
+            variant="contained"
+            color={upcoming.length > 0 ? "error" : "primary"}
+            disabled={busy}
+            onClick={() => run(() => archiveCatalogItem(target!.catalog, target!.id, upcoming.length > 0))}
+          >
+            {upcoming.length > 0 ? "Отменить будущие брони и архивировать" : "В архив"}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import { Paper, Typography, Table, TableHead, TableRow, TableCell, TableBody, Button } from "@mui/material";
+import { fetchArchived, restoreCatalogItem, type ArchiveCatalog } from "@/api/archiveApi";
+import { subscribeLiveEvents } from "@/api/liveEvents";
+import { errorMessage } from "@/api/problem";
+import type { Auditory, Device } from "@/api/schema.gen";
+
+const KINDS: Record<ArchiveCatalog, string> = {
+  devices: "Устройство",
+  auditories: "Аудитория",
+};
+
+// Архив каталога: скрытые из выбора устройства и аудитории, которые можно вернуть в работу
+export function ArchivedCatalog({ onRestored }: { onRestored: () => void }) {
+  const [items, setItems] = useState<((Device | Auditory) & { catalog: ArchiveCatalog })[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      const [devices, auditories] = await Promise.all([fetchArchived("devices"), fetchArchived("auditories")]);
+      setItems([
+        ...devices.map((d) => ({ ...d, catalog: "devices" as const })),
+        ...auditories.map((a) => ({ ...a, catalog: "auditories" as const })),
+      ]);
+    } catch (e) {
+      console.error(e);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+  useEffect(() => subscribeLiveEvents((event) => {
+    if (event.entity === "device" || event.entity === "auditory") load();
+  }), [load]);
+
+  const restore = async (item: (Device | Auditory) & { catalog: ArchiveCatalog }) => {
+    try {
+      await restoreCatalogItem(item.catalog, item.id);
+      await load();
+      onRestored();
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <Paper sx={{ p: 2, mb: 4 }}>
+      <Typography variant="subtitle1" gutterBottom>Архив ({items.length})</Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Тип</TableCell>
+            <TableCell>Название</TableCell>
+            <TableCell>В архиве с</TableCell>
+            <TableCell align="right" />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((item) => (
+            <TableRow key={`${item.catalog}:${item.id}`}>
+              <TableCell>{KINDS[item.catalog]}</TableCell>
+              <TableCell>{item.name}</TableCell>
+              <TableCell>{item.archivedAt ? new Date(item.archivedAt).toLocaleString() : "—"}</TableCell>
+              <TableCell align="right">
+                <Button size="small" onClick={() => restore(item)}>Восстановить</Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Box, Typography, List, ListItem, ListItemText } from "@mui/material";
+import { fetchAudit, type AuditAction, type AuditEntity } from "@/api/auditApi";
+import type { AuditEntry } from "@/api/schema.gen";
+
+const ACTIONS: Record<AuditAction, string> = {
+  created: "создано",
+  updated: "изменено",
+  deleted: "удалено",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+const plain = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "да" : "нет";
+  if (Array.isArray(value)) return value.length > 0 ? value.map(plain).join(", ") : "—";
+  if (typeof value === "string" && ISO_DATE.test(value)) return new Date(value).toLocaleString();
+  return String(value);
+};
+
+// Изменённые поля записи из числа показываемых; у созданной и удалённой — все непустые
+const changedFields = (entry: AuditEntry, fields: string[]) =>
+  fields.filter((f) => {
+    const before = entry.before?.[f];
+    const after = entry.after?.[f];
+    if (entry.action === "updated") return JSON.stringify(before) !== JSON.stringify(after);
+    return (before ?? after) != null;
+  });
+
+// История изменений записи: кто, когда и какие поля поменял. fields — подписи показываемых полей,
+// служебные поля (отметка о напоминании и т. п.) в список не попадают; formatValue превращает id в названия.
+export function AuditHistory({
+  entity,
+  id,
+  fields,
+  formatValue,
+}: {
+  entity: AuditEntity;
+  id: string;
+  fields: Record<string, string>;
+  formatValue?: (field: string, value: unknown) => string | undefined;
+}) {
+  const [items, setItems] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    setItems(null);
+    fetchAudit(entity, id)
+      .then((page) => setItems(page.items))
+      .catch((e) => { console.error(e); setItems([]); });
+  }, [entity, id]);
+
+  const show = (field: string, value: unknown) => formatValue?.(field, value) ?? plain(value);
+
+  if (!items) return <Typography variant="body2" color="text.secondary">Загрузка…</Typography>;
+  if (items.length === 0) return <Typography variant="body2" color="text.secondary">Изменений нет.</Typography>;
+
+  return (
+    <List dense disablePadding>
+      {items.map((entry) => (
+        <ListItem key={entry.id} disableGutters alignItems="flex-start">
+          <ListItemText
+            primary={`${new Date(entry.createdAt).toLocaleString()} · ${entry.actorName ?? "система"} · ${ACTIONS[entry.action]}`}
+            secondary={
+              <Box component="span" sx={{ display: "flex", flexDirection: "column" }}>
+                {changedFields(entry, Object.keys(fields)).map((f) => (
+                  <span key={f}>
+                    {fields[f]}: {entry.action === "updated"
+                      ? `${show(f, entry.before?.[f])} → ${show(f, entry.after?.[f])}`
+                      : show(f, entry.before?.[f] ?? entry.after?.[f])}
+                  </span>
+                ))}
+              </Box>
+            }
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import axios from "axios";
+import {
+  Paper, Box, Typography, Button, ButtonGroup, ToggleButton, ToggleButtonGroup, Alert,
+  Dialog, DialogTitle, DialogContent, DialogActions, TextField, MenuItem
+} from "@mui/material";
+import { ChevronLeft, ChevronRight } from "@mui/icons-material";
+import { fetchBookingsRange, createBooking, updateBooking } from "@/api/bookingsApi";
+import { fetchMaintenance } from "@/api/maintenanceApi";
+import { subscribeLiveEvents } from "@/api/liveEvents";
+import { errorMessage } from "@/api/problem";
+import type { Booking, ConflictProblem, Maintenance } from "@/api/schema.gen";
+import { useAuth } from "@/context/auth";
+import { canManageAnyBooking } from "@/context/permissions";
+
+type View = "day" | "week";
+
+interface Option { id: string; name: string }
+
+// Что тянем мышью: новую бронь, бронь целиком или один из её краёв. Время — в мс.
+type Drag =
+  | { kind: "create"; auditoryId: string; track: HTMLElement; origin: number; start: number; end: number }
+  | { kind: "move" | "resize-start" | "resize-end"; booking: Booking; track: HTMLElement; origin: number; start: number; end: number };
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const LABEL_WIDTH = 160;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+const startOfWeek = (d: Date) => {
+  const day = startOfDay(d);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+};
+
+// Видимое окно, шаг привязки и деления шкалы для выбранного режима
+const windowOf = (view: View, anchor: Date) => {
+  const from = view === "day" ? startOfDay(anchor) : startOfWeek(anchor);
+  const to = new Date(from);
+  to.setDate(to.getDate() + (view === "day" ? 1 : 7));
+  return { from: from.getTime(), to: to.getTime(), snap: view === "day" ? 15 * MINUTE : HOUR, ticks: view === "day" ? 24 : 7 };
+};
+
+// 409 показываем так же, как форма бронирования: текст ошибки и пересекающиеся брони
+const errorText = (e: unknown) => {
+  const data = axios.isAxiosError(e) ? e.response?.data as ConflictProblem | undefined : undefined;
+  const lines = (data?.conflicts ?? []).map(c =>
+    `${c.auditory?.name ?? ""}: ${new Date(c.startTime).toLocaleString()} — ${new Date(c.endTime).toLocaleString()}`
+  );
+  return [errorMessage(e), ...lines].join("\n");
+};
+
+export function BookingTimeline({
+  auditories, devices, onChanged,
+}: {
+  auditories: Option[];
+  devices: Option[];
+  onChanged?: () => void;
+}) {
+  const { user, isAuthenticated } = useAuth();
+  const [view, setView] = useState<View>("day");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [maintenance, setMaintenance] = useState<Maintenance[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [draft, setDraft] = useState<{ auditoryId: string; start: number; end: number; deviceId: string } | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const { from, to, snap, ticks } = windowOf(view, anchor);
+  const span = to - from;
+
+  const load = useCallback(async () => {
+    const range = { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+    try {
+      const [b, m] = await Promise.all([fetchBookingsRange(range.from, range.to), fetchMaintenance(range)]);
+      setBookings(b);
+      setMaintenance(m);
+    } catch (e) {
+      setError(errorText(e));
+    }
+  }, [from, to]);
+
+  useEffect(() => { load(); }, [load]);
+
+  // Брони и обслуживание, изменённые другими пользователями, перечитываем для текущего окна
+  useEffect(() => subscribeLiveEvents((event) => {
+    if (event.entity === "booking" || event.entity === "maintenance") load();
+  }), [load]);
+
+  const canEdit = (b: Booking) => isAuthenticated && (canManageAnyBooking(user) || b.userId === user?.id);
+
+  const shift = (dir: number) => {
+    const next = new Date(anchor);
+    next.setDate(next.getDate() + dir * (view === "day" ? 1 : 7));
+    setAnchor(next);
+  };
+
+  // Позиция указателя на дорожке → время, привязанное к шагу
+  const timeAt = (track: HTMLElement, clientX: number) => {
+    const rect = track.getBoundingClientRect();
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return Math.round((from + ratio * span) / snap) * snap;
+  };
+
+  const place = (start: number, end: number) => {
+    const left = Math.max(start, from);
+    const right = Math.min(end, to);
+    return { left: `${((left - from) / span) * 100}%`, width: `${(Math.max(right - left, 0) / span) * 100}%` };
+  };
+
+  const beginDrag = (e: ReactPointerEvent, next: Drag) => {
+    e.stopPropagation();
+    rootRef.current?.setPointerCapture(e.pointerId);
+    setError(null);
+    setDrag(next);
+  };
+
+  const onTrackDown = (e: ReactPointerEvent<HTMLElement>, auditoryId: string) => {
+    if (!isAuthenticated || e.button !== 0) return;
+    const track = e.currentTarget;
+    const t = timeAt(track, e.clientX);
+    beginDrag(e, { kind: "create", auditoryId, track, origin: t, start: t, end: t });
+  };
+
+  const onBookingDown = (e: ReactPointerEvent<HTMLElement>, b: Booking, kind: "move" | "resize-start" | "resize-end") => {
+    if (!canEdit(b) || e.button !== 0) return;
+    const track = e.currentTarget.closest("[data-track]") as HTMLElement;
+    beginDrag(e, {
+      kind, booking: b, track,
+      origin: timeAt(track, e.clientX),
+      start: new Date(b.startTime).getTime(),
+      end: new Date(b.endTime).getTime(),
+    });
+  };
+
+  const onPointerMove = (e: ReactPointerEvent) => {
+    if (!drag) return;
+    const t = timeAt(drag.track, e.clientX);
+    if (drag.kind === "create") {
+      setDrag({ ...drag, start: Math.min(drag.origin, t), end: Math.max(drag.origin, t) });
+      return;
+    }
+    const start = new Date(drag.booking.startTime).getTime();
+    const end = new Date(drag.booking.endTime).getTime();
+    if (drag.kind === "move") setDrag({ ...drag, start: start + t - drag.origin, end: end + t - drag.origin });
+    if (drag.kind === "resize-start") setDrag({ ...drag, start: Math.min(t, end - snap) });
+    if (drag.kind === "resize-end") setDrag({ ...drag, end: Math.max(t, start + snap) });
+  };
+
+  const onPointerUp = async () => {
+    if (!drag) return;
+    setDrag(null);
+    if (drag.kind === "create") {
+      if (drag.end - drag.start >= snap) {
+        setDraft({ auditoryId: drag.auditoryId, start: drag.start, end: drag.end, deviceId: "" });
+      }
+      return;
+    }
+    const b = drag.booking;
+    if (drag.start === new Date(b.startTime).getTime() && drag.end === new Date(b.endTime).getTime()) return;
+    try {
+      await updateBooking(b.id, { startTime: new Date(drag.start).toISOString(), endTime: new Date(drag.end).toISOString() });
+      onChanged?.();
+    } catch (e) {
+      setError(errorText(e));
+    }
+    load();
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    try {
+      await createBooking({
+        auditoryId: draft.auditoryId,
+        deviceId: draft.deviceId,
+        startTime: new Date(draft.start).toISOString(),
+        endTime: new Date(draft.end).toISOString(),
+      });
+      onChanged?.();
+    } catch (e) {
+      setError(errorText(e));
+    }
+    setDraft(null);
+    load();
+  };
+
+  const tickLabel = (i: number) => {
+    const d = new Date(from + i * (span / ticks));
+    return view === "day"
+      ? `${d.getHours()}:00`
+      : d.toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "numeric" });
+  };
+  const grid = {
+    backgroundImage: "linear-gradient(to right, #eef0f3 1px, transparent 1px)",
+    backgroundSize: `${100 / ticks}% 100%`,
+  };
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, border: "1px solid #eef0f3", borderRadius: 2 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 2 }}>
+        <ButtonGroup size="small">
+          <Button onClick={() => shift(-1)}><ChevronLeft /></Button>
+          <Button onClick={() => setAnchor(new Date())}>Сегодня</Button>
+          <Button onClick={() => shift(1)}><ChevronRight /></Button>
+        </ButtonGroup>
+        <Typography variant="subtitle1" sx={{ flex: 1 }}>
+          {view === "day"
+            ? new Date(from).toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long" })
+            : `${new Date(from).toLocaleDateString()} — ${new Date(to - DAY).toLocaleDateString()}`}
+        </Typography>
+        <ToggleButtonGroup size="small" exclusive value={view} onChange={(_, v: View | null) => v && setView(v)}>
+          <ToggleButton value="day">День</ToggleButton>
+          <ToggleButton value="week">Неделя</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {error && <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2, whiteSpace: "pre-line" }}>{error}</Alert>}
+
+      <Box
+        ref={rootRef}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        sx={{ overflowX: "auto", userSelect: "none", touchAction: "none" }}
+      >
+        <Box sx={{ minWidth: 960 }}>
+          <Box sx={{ display: "flex", borderBottom: "1px solid #eef0f3" }}>
+            <Box sx={{ width: LABEL_WIDTH, flexShrink: 0 }} />
+            <Box sx={{ flex: 1, display: "flex" }}>
+              {Array.from({ length: ticks }, (_, i) => (
+                <Typography key={i} variant="caption" color="text.secondary" sx={{ flex: 1, pl: 0.5 }}>{tickLabel(i)}</Typography>
+              ))}
+            </Box>
+          </Box>
+
+          {auditories.map(a => (
+            <Box key={a.id} sx={{ display: "flex", borderBottom: "1px solid #eef0f3" }}>
+              <Typography variant="body2" noWrap sx={{ width: LABEL_WIDTH, flexShrink: 0, py: 1.5, pr: 1 }}>{a.name}</Typography>
+              <Box
+                data-track
+                onPointerDown={e => onTrackDown(e, a.id)}
+                sx={{ flex: 1, position: "relative", height: 48, cursor: isAuthenticated ? "crosshair" : "default", ...grid }}
+              >
+                {maintenance.filter(m => m.auditoryId === a.id).map(m => (
+                  <Box
+                    key={m.id}
+                    title={`Обслуживание: ${m.reason}`}
+                    sx={{
+                      position: "absolute", top: 4, bottom: 4, borderRadius: 1,
+                      background: "repeating-linear-gradient(45deg, #e0e0e0, #e0e0e0 6px, #f5f5f5 6px, #f5f5f5 12px)",
+                      ...place(new Date(m.startTime).getTime(), new Date(m.endTime).getTime()),
+                    }}
+                  />
+                ))}
+
+                {bookings.filter(b => b.auditoryId === a.id).map(b => {
+                  const dragged = drag && drag.kind !== "create" && drag.booking.id === b.id ? drag : null;
+                  const start = dragged ? dragged.start : new Date(b.startTime).getTime();
+                  const end = dragged ? dragged.end : new Date(b.endTime).getTime();
+                  const editable = canEdit(b);
+                  return (
+                    <Box
+                      key={b.id}
+                      onPointerDown={e => onBookingDown(e, b, "move")}
+                      title={`${b.device?.name ?? ""}, ${b.user?.name || b.user?.email || "—"}\n${new Date(start).toLocaleString()} — ${new Date(end).toLocaleString()}${b.status === "pending" ? "\nЖдёт подтверждения" : ""}`}
+                      sx={{
+                        position: "absolute", top: 4, bottom: 4, px: 1, borderRadius: 1, overflow: "hidden",
+                        bgcolor: editable ? "primary.main" : "grey.500", color: "common.white",
+                        // Заявка ещё не занимает аудиторию — рисуется полупрозрачной с пунктиром
+                        ...(b.status === "pending" && { opacity: 0.55, outline: "2px dashed", outlineOffset: -2 }),
+                        ...(dragged && { opacity: 0.7 }), cursor: editable ? "grab" : "default",
+                        ...place(start, end),
+                      }}
+                    >
+                      <Typography variant="caption" noWrap component="div" sx={{ lineHeight: "40px" }}>{b.device?.name}</Typography>
+                      {editable && (<>
+                        <Box onPointerDown={e => onBookingDown(e, b, "resize-start")} sx={{ position: "absolute", left: 0, top: 0, bottom: 0, width: 6, cursor: "ew-resize" }} />
+                        <Box onPointerDown={e => onBookingDown(e, b, "resize-end")} sx={{ position: "absolute", right: 0, top: 0, bottom: 0, width: 6, cursor: "ew-resize" }} />
+                      </>)}
+                    </Box>
+                  );
+                })}
+
+                {drag?.kind === "create" && drag.auditoryId === a.id && drag.end > drag.start && (
+                  <Box sx={{ position: "absolute", top: 4, bottom: 4, borderRadius: 1, bgcolor: "primary.light", opacity: 0.5, ...place(drag.start, drag.end) }} />
+                )}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+
+      {/* Новая бронь из выделенного интервала: осталось выбрать устройство */}
+      <Dialog open={!!draft} onClose={() => setDraft(null)}>
+        <DialogTitle>Новое бронирование</DialogTitle>
+        <DialogContent>
+          {draft && (
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              {auditories.find(a => a.id === draft.auditoryId)?.name}: {new Date(draft.start).toLocaleString()} — {new Date(draft.end).toLocaleString()}
+            </Typography>
+          )}
+          <TextField select fullWidth label="Устройство" value={draft?.deviceId ?? ""} onChange={e => draft && setDraft({ ...draft, deviceId: e.target.value })}>
+            {devices.map(d => <MenuItem key={d.id} value={d.id}>{d.name}</MenuItem>)}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDraft(null)}>Отмена</Button>
+          <Button variant="contained" disabled={!draft?.deviceId} onClick={saveDraft}>Занять</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
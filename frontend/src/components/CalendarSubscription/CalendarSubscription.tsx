@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Paper, Box, Typography, Button, TextField } from "@mui/material";
+import { EventAvailableOutlined } from "@mui/icons-material";
+import { rotateCalendarToken, calendarFeedUrl } from "@/api/authApi";
+import { errorMessage } from "@/api/problem";
+import { useAuth } from "@/context/auth";
+
+// Подписка на свои брони в Google Calendar, Outlook и т.п. Секрет хранится на сервере
+// только в виде хэша, поэтому ссылку видно лишь сразу после выпуска.
+export function CalendarSubscription() {
+  const { user } = useAuth();
+  const [link, setLink] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const userId = user?.id;
+  if (!userId) return null;
+
+  const issue = async () => {
+    if (!confirm("Создать новую ссылку? Старая ссылка перестанет работать.")) return;
+    try {
+      setBusy(true);
+      setLink(calendarFeedUrl(userId, await rotateCalendarToken()));
+    } catch (e) {
+      alert(errorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, mb: 2, border: "1px solid #eef0f3", borderRadius: 2 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+        <EventAvailableOutlined color="action" />
+        <Typography variant="body2" sx={{ flex: 1 }}>
+          Добавьте ссылку в календарь, чтобы бронирования появлялись в нём автоматически.
+        </Typography>
+        <Button variant="outlined" size="small" onClick={issue} disabled={busy}>Ссылка для календаря</Button>
+      </Box>
+      {link && (
+        <TextField
+          fullWidth
+          size="small"
+          value={link}
+          sx={{ mt: 2 }}
+          InputProps={{ readOnly: true }}
+          onFocus={(e) => e.target.select()}
+          helperText="Скопируйте ссылку сейчас: повторно её показать нельзя"
+        />
+      )}
+    </Paper>
+  );
+}
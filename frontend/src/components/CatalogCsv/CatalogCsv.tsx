@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Paper, Typography, Box, Button, Alert } from "@mui/material";
+import { UploadFileOutlined, DownloadOutlined } from "@mui/icons-material";
+import { importCatalogCsv, csvExportUrl, type CsvCatalog } from "@/api/csvApi";
+import { errorMessage } from "@/api/problem";
+import type { CsvImportReport } from "@/api/schema.gen";
+
+const CATALOGS: { id: CsvCatalog; label: string; columns: string }[] = [
+  { id: "devices", label: "Устройства", columns: "name" },
+  { id: "auditories", label: "Аудитории", columns: "name, code, capacity, equipment" },
+];
+
+// Массовая загрузка каталога из таблиц: строки с тем же названием обновляются, ошибки показываются построчно
+export function CatalogCsv({ onImported }: { onImported: () => void }) {
+  const [report, setReport] = useState<{ label: string; result: CsvImportReport } | null>(null);
+
+  const upload = async (catalog: (typeof CATALOGS)[number], file: File) => {
+    try {
+      const result = await importCatalogCsv(catalog.id, await file.text());
+      setReport({ label: catalog.label, result });
+      onImported();
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2, mb: 4 }}>
+      <Typography variant="subtitle1" gutterBottom>Импорт и экспорт CSV</Typography>
+      {CATALOGS.map((c) => (
+        <Box key={c.id} sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1 }}>
+          <Typography sx={{ width: 120 }}>{c.label}</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>Колонки: {c.columns}</Typography>
+          <Button size="small" startIcon={<DownloadOutlined />} href={csvExportUrl(`${c.id}.csv`)}>Экспорт</Button>
+          <Button size="small" component="label" startIcon={<UploadFileOutlined />}>
+            Импорт
+            <input
+              hidden
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => { const f = e.target.files?.[0]; e.target.value = ""; if (f) upload(c, f); }}
+            />
+          </Button>
+        </Box>
+      ))}
+      {report && (
+        <Alert severity={report.result.errors.length > 0 ? "warning" : "success"} onClose={() => setReport(null)} sx={{ mt: 1, whiteSpace: "pre-line" }}>
+          {[
+            `${report.label}: создано ${report.result.created}, обновлено ${report.result.updated}, без изменений ${report.result.unchanged}`,
+            ...report.result.errors.map((r) => `Строка ${r.row}: ${r.errors.join("; ")}`),
+          ].join("\n")}
+        </Alert>
+      )}
+    </Paper>
+  );
+}
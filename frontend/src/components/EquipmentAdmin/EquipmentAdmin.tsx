@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Paper, Typography, Box, TextField, Button, IconButton, Stack } from "@mui/material";
+import { Add, DeleteOutline, SaveOutlined } from "@mui/icons-material";
+import {
+  createEquipment, updateEquipment, deleteEquipment
+} from "@/api/equipmentApi";
+import { errorMessage } from "@/api/problem";
+import type { Equipment } from "@/api/schema.gen";
+
+// Справочник оборудования: подписи, которые показываются в чипах аудиторий
+export function EquipmentAdmin({ items, onChanged }: { items: Equipment[]; onChanged: () => void }) {
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState({ code: "", label: "" });
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onChanged();
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  const add = () => run(async () => {
+    await createEquipment(draft);
+    setDraft({ code: "", label: "" });
+  });
+
+  const save = (item: Equipment) => run(async () => {
+    await updateEquipment(item.id, { label: labels[item.id] ?? item.label });
+    setLabels((prev) => {
+      const next = { ...prev };
+      delete next[item.id];
+      return next;
+    });
+  });
+
+  const remove = (item: Equipment) => {
+    if (!confirm(`Удалить «${item.label}» из справочника? Оно пропадёт у всех аудиторий.`)) return;
+    run(() => deleteEquipment(item.id));
+  };
+
+  return (
+    <Paper sx={{ p: 2, mb: 4 }}>
+      <Typography variant="subtitle1" gutterBottom>Оборудование</Typography>
+      <Stack spacing={1} sx={{ mb: 2 }}>
+        {items.map((item) => (
+          <Box key={item.id} sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+            <Typography sx={{ width: 120, color: "text.secondary" }}>{item.code}</Typography>
+            <TextField
+              size="small"
+              value={labels[item.id] ?? item.label}
+              onChange={(e) => setLabels({ ...labels, [item.id]: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <IconButton onClick={() => save(item)} disabled={!(item.id in labels)} title="Сохранить"><SaveOutlined /></IconButton>
+            <IconButton onClick={() => remove(item)} color="error" title="Удалить"><DeleteOutline /></IconButton>
+          </Box>
+        ))}
+      </Stack>
+      <Box sx={{ display: "flex", gap: 1 }}>
+        <TextField size="small" placeholder="Код (projector)" value={draft.code} onChange={(e) => setDraft({ ...draft, code: e.target.value })} sx={{ width: 180 }} />
+        <TextField size="small" placeholder="Название" value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} sx={{ flex: 1 }} />
+        <Button variant="outlined" onClick={add}><Add /></Button>
+      </Box>
+    </Paper>
+  );
+}
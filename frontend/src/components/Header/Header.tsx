@@ -4,17 +4,22 @@ import type { NavItem } from "./header.types";
 import { DEFAULT_NAV } from "./header.config";
 import { useAuth } from "@/context/auth";
 import { DomainRounded, NotificationsNoneOutlined } from "@mui/icons-material";
+import { Badge } from "@mui/material";
 
 export function Header({
   navItems = DEFAULT_NAV,
   activeNavId,
   onNavigate,
   onBellClick,
+  unreadCount = 0,
+  onAvatarClick,
 }: {
   navItems?: NavItem[];
   activeNavId: string;
   onNavigate: (id: string) => void;
-  onBellClick?: () => void;
+  onBellClick?: (anchor: HTMLElement) => void;
+  unreadCount?: number;
+  onAvatarClick?: () => void;
 }) {
   const { user } = useAuth();
 
@@ -56,17 +61,19 @@ export function Header({
         <div className={s.spacer} />
 
         <div className={s.right}>
-          <button type="button" className={s.iconBtn} onClick={onBellClick} aria-label="Уведомления" title="Уведомления">
-            <NotificationsNoneOutlined />
+          <button type="button" className={s.iconBtn} onClick={(e) => onBellClick?.(e.currentTarget)} aria-label="Уведомления" title="Уведомления">
+            <Badge badgeContent={unreadCount} color="error" max={99}>
+              <NotificationsNoneOutlined />
+            </Badge>
           </button>
 
-          <div className={s.avatar} title={user?.name || "Гость"}>
+          <button type="button" className={s.avatar} onClick={onAvatarClick} title={user?.name || "Гость — войти"}>
             {user?.avatarUrl ? (
               <img src={user.avatarUrl} alt="" width={32} height={32} style={{ borderRadius: "999px" }} />
             ) : (
               <span>{initials(user?.name)}</span>
             )}
-          </div>
+          </button>
         </div>
       </div>
     </header>
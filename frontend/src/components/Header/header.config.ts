@@ -1,7 +1,8 @@
 import type { NavItem } from "./header.types"; 
-import { ListAltOutlined, EventNoteOutlined, SettingsOutlined } from "@mui/icons-material"; 
+import { ListAltOutlined, EventNoteOutlined, BookmarkBorderOutlined, SettingsOutlined } from "@mui/icons-material"; 
 export const DEFAULT_NAV: NavItem[] = [ 
   { id: "catalog",  label: "Каталог аудиторий", icon: ListAltOutlined },
   { id: "bookings", label: "Управление бронированием", icon: EventNoteOutlined }, 
+  { id: "mine",     label: "Мои бронирования", icon: BookmarkBorderOutlined },
   { id: "settings", label: "Настройки", icon: SettingsOutlined }, 
 ]; 
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, TextField, Button, Typography, Link
+} from "@mui/material";
+import { errorMessage } from "@/api/problem";
+import { useAuth } from "@/context/auth";
+
+export function LoginDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const { signIn, signUp } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [form, setForm] = useState({ email: "", name: "", password: "" });
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === "login") await signIn({ email: form.email, password: form.password });
+      else await signUp({ email: form.email, password: form.password, ...(form.name ? { name: form.name } : {}) });
+      setForm({ email: "", name: "", password: "" });
+      onClose();
+    } catch (e) {
+      setError(errorMessage(e, "Ошибка входа"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{mode === "login" ? "Вход" : "Регистрация"}</DialogTitle>
+      <DialogContent sx={{ display: "flex", flexDirection: "column", gap: 2, pt: "8px !important" }}>
+        <TextField label="Email" type="email" value={form.email} onChange={e => setForm({ ...form, email: e.target.value })} fullWidth />
+        {mode === "register" && (
+          <TextField label="Имя" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} fullWidth />
+        )}
+        <TextField label="Пароль" type="password" value={form.password} onChange={e => setForm({ ...form, password: e.target.value })} fullWidth />
+        {error && <Typography color="error" variant="body2">{error}</Typography>}
+        <Link component="button" type="button" variant="body2" onClick={() => setMode(mode === "login" ? "register" : "login")}>
+          {mode === "login" ? "Нет аккаунта? Зарегистрироваться" : "Уже есть аккаунт? Войти"}
+        </Link>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Отмена</Button>
+        <Button onClick={submit} variant="contained" disabled={busy}>
+          {mode === "login" ? "Войти" : "Создать"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
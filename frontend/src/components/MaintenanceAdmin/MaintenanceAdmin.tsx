@@ -0,0 +1,93 @@
+import { useState } from "react";
+import {
+  Paper, Typography, Box, TextField, Button, IconButton, MenuItem,
+  Table, TableHead, TableRow, TableCell, TableBody
+} from "@mui/material";
+import { Add, DeleteOutline } from "@mui/icons-material";
+import { createMaintenance, deleteMaintenance } from "@/api/maintenanceApi";
+import { errorMessage } from "@/api/problem";
+import type { Maintenance } from "@/api/schema.gen";
+
+interface Option { id: string; name: string }
+
+// Цель обслуживания кодируется в одном select: "auditory:<id>" или "device:<id>"
+export function MaintenanceAdmin({
+  items, auditories, devices, onChanged,
+}: {
+  items: Maintenance[];
+  auditories: Option[];
+  devices: Option[];
+  onChanged: () => void;
+}) {
+  const [draft, setDraft] = useState({ target: "", start: "", end: "", reason: "" });
+
+  const add = async () => {
+    const [kind, id] = draft.target.split(":");
+    try {
+      const created = await createMaintenance({
+        ...(kind === "auditory" ? { auditoryId: id } : { deviceId: id }),
+        startTime: new Date(draft.start).toISOString(),
+        endTime: new Date(draft.end).toISOString(),
+        reason: draft.reason,
+      });
+      if (created.affectedBookings.length > 0) {
+        alert(`В этот период уже есть бронирования: ${created.affectedBookings.length}. Предупредите их владельцев.`);
+      }
+      setDraft({ target: "", start: "", end: "", reason: "" });
+      onChanged();
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteMaintenance(id);
+      onChanged();
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2, mb: 4 }}>
+      <Typography variant="subtitle1" gutterBottom>Обслуживание</Typography>
+      <Box sx={{ display: "flex", gap: 1, mb: 2 }}>
+        <TextField select size="small" label="Что" value={draft.target} onChange={(e) => setDraft({ ...draft, target: e.target.value })} sx={{ width: 200 }}>
+          {auditories.map((a) => <MenuItem key={a.id} value={`auditory:${a.id}`}>Аудитория {a.name}</MenuItem>)}
+          {devices.map((d) => <MenuItem key={d.id} value={`device:${d.id}`}>Устройство {d.name}</MenuItem>)}
+        </TextField>
+        <TextField size="small" type="datetime-local" label="С" InputLabelProps={{ shrink: true }} value={draft.start} onChange={(e) => setDraft({ ...draft, start: e.target.value })} />
+        <TextField size="small" type="datetime-local" label="До" InputLabelProps={{ shrink: true }} value={draft.end} onChange={(e) => setDraft({ ...draft, end: e.target.value })} />
+        <TextField size="small" placeholder="Причина" value={draft.reason} onChange={(e) => setDraft({ ...draft, reason: e.target.value })} sx={{ flex: 1 }} />
+        <Button variant="outlined" onClick={add}><Add /></Button>
+      </Box>
+      {items.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Что</TableCell>
+              <TableCell>Начало</TableCell>
+              <TableCell>Окончание</TableCell>
+              <TableCell>Причина</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map((m) => (
+              <TableRow key={m.id}>
+                <TableCell>{m.auditory ? `Аудитория ${m.auditory.name}` : `Устройство ${m.device?.name ?? ""}`}</TableCell>
+                <TableCell>{new Date(m.startTime).toLocaleString()}</TableCell>
+                <TableCell>{new Date(m.endTime).toLocaleString()}</TableCell>
+                <TableCell>{m.reason}</TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" color="error" onClick={() => remove(m.id)} title="Удалить"><DeleteOutline fontSize="small" /></IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
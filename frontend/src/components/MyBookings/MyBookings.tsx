@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Paper, Table, TableHead, TableRow, TableCell, TableBody,
+  Chip, CircularProgress, Box, IconButton, Typography, Button
+} from "@mui/material";
+import { DeleteOutline } from "@mui/icons-material";
+import { fetchMyBookings, cancelBooking, checkInBooking } from "@/api/bookingsApi";
+import { errorMessage } from "@/api/problem";
+import type { Booking } from "@/api/schema.gen";
+import { useAuth } from "@/context/auth";
+
+// Статус брони относительно текущего момента
+const phase = (b: Booking, now: Date) => {
+  if (b.status === "no_show") return { label: "Снята: неявка", color: "error" as const };
+  if (b.status === "rejected") return { label: "Отклонена", color: "error" as const };
+  if (b.status === "pending") return { label: "Ждёт подтверждения", color: "warning" as const };
+  if (new Date(b.endTime) <= now) return { label: "Завершена", color: "default" as const };
+  if (new Date(b.startTime) <= now) {
+    return { label: b.status === "checked_in" ? "Идёт, отмечено" : "Идёт", color: "success" as const };
+  }
+  return { label: "Предстоит", color: "info" as const };
+};
+
+export function MyBookings() {
+  const { isAuthenticated } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [error, setError]     = useState<string | null>(null);
+  const [items, setItems]     = useState<Booking[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setItems(await fetchMyBookings());
+    } catch (e) {
+      setError(errorMessage(e, "Ошибка загрузки"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) load();
+  }, [isAuthenticated, load]);
+
+  const cancel = async (id: string) => {
+    if (!confirm("Отменить бронирование?")) return;
+    try {
+      await cancelBooking(id);
+      setItems((prev) => prev.filter((b) => b.id !== id));
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  // Отметиться можно только в идущей брони; окно после начала проверяет сервер
+  const checkIn = async (id: string) => {
+    try {
+      const updated = await checkInBooking(id);
+      setItems((prev) => prev.map((b) => (b.id === id ? updated : b)));
+    } catch (e) {
+      alert(errorMessage(e));
+    }
+  };
+
+  if (!isAuthenticated) return <Box sx={{ p: 3 }}><Typography>Войдите, чтобы увидеть свои бронирования.</Typography></Box>;
+  if (loading) return <Box sx={{ p: 3, display: "grid", placeItems: "center" }}><CircularProgress /></Box>;
+  if (error)   return <Box sx={{ p: 3 }}><Typography color="error">Не удалось загрузить данные: {error}</Typography></Box>;
+  if (items.length === 0) return <Box sx={{ p: 3 }}><Typography color="text.secondary">У вас пока нет бронирований.</Typography></Box>;
+
+  const now = new Date();
+  return (
+    <Paper elevation={0} sx={{ borderRadius: 2, overflow: "hidden", border: "1px solid #eef0f3" }}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Аудитория</TableCell>
+            <TableCell>Устройство</TableCell>
+            <TableCell>Начало</TableCell>
+            <TableCell>Окончание</TableCell>
+            <TableCell width={140}>Статус</TableCell>
+            <TableCell width={120}>Отметка</TableCell>
+            <TableCell width={80} align="center">Отмена</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((b) => {
+            const p = phase(b, now);
+            return (
+              <TableRow key={b.id} hover>
+                <TableCell>{b.auditory?.name}</TableCell>
+                <TableCell>{b.device?.name}</TableCell>
+                <TableCell>{new Date(b.startTime).toLocaleString()}</TableCell>
+                <TableCell>{new Date(b.endTime).toLocaleString()}</TableCell>
+                <TableCell><Chip label={p.label} size="small" color={p.color} title={b.decisionReason ?? undefined} /></TableCell>
+                <TableCell>
+                  {b.status === "booked" && b.checkInRequired && new Date(b.startTime) <= now && new Date(b.endTime) > now && (
+                    <Button size="small" variant="outlined" onClick={() => checkIn(b.id)}>Я на месте</Button>
+                  )}
+                </TableCell>
+                <TableCell align="center">
+                  <IconButton size="small" color="error" title="Отменить" onClick={() => cancel(b.id)} disabled={new Date(b.endTime) <= now || b.status === "rejected"}>
+                    <DeleteOutline fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
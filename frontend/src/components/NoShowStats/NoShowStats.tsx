@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import {
+  Paper, Typography, Table, TableHead, TableRow, TableCell, TableBody, Chip
+} from "@mui/material";
+import { fetchNoShowStats } from "@/api/bookingsApi";
+import type { NoShowStats } from "@/api/schema.gen";
+
+// Доля неявок, начиная с которой пользователь выделяется в списке
+const HABITUAL_RATE = 0.3;
+
+// Кто бронирует и не приходит: неявки за последние 90 дней, худшие сверху
+export function NoShowStats() {
+  const [rows, setRows] = useState<NoShowStats[] | null>(null);
+
+  useEffect(() => {
+    fetchNoShowStats()
+      .then(setRows)
+      .catch((e) => console.error(e));
+  }, []);
+
+  if (!rows) return null;
+
+  return (
+    <Paper sx={{ p: 2, mb: 4 }}>
+      <Typography variant="subtitle1" gutterBottom>Неявки за 90 дней</Typography>
+      {rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">Данных пока нет.</Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Пользователь</TableCell>
+              <TableCell align="right">Пришли</TableCell>
+              <TableCell align="right">Не пришли</TableCell>
+              <TableCell align="right">Доля неявок</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((r) => (
+              <TableRow key={r.user.id}>
+                <TableCell>{r.user.name || r.user.email}</TableCell>
+                <TableCell align="right">{r.checkedIn}</TableCell>
+                <TableCell align="right">{r.noShows}</TableCell>
+                <TableCell align="right">
+                  <Chip
+                    size="small"
+                    label={`${Math.round(r.rate * 100)}%`}
+                    color={r.noShows > 0 && r.rate >= HABITUAL_RATE ? "error" : "default"}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,84 @@
+import {
+  Popover, Box, Typography, Button, Divider, List, ListItemButton, ListItemIcon, ListItemText
+} from "@mui/material";
+import {
+  ScheduleOutlined, EditCalendarOutlined, EventBusyOutlined, MeetingRoomOutlined, PersonOffOutlined,
+  CheckCircleOutline, HighlightOff
+} from "@mui/icons-material";
+import type { NotificationKind } from "@/api/notificationsApi";
+import type { Notification } from "@/api/schema.gen";
+
+const ICONS: Record<NotificationKind, typeof ScheduleOutlined> = {
+  ending_soon: ScheduleOutlined,
+  booking_changed: EditCalendarOutlined,
+  booking_cancelled: EventBusyOutlined,
+  room_free: MeetingRoomOutlined,
+  no_show: PersonOffOutlined,
+  booking_approved: CheckCircleOutline,
+  booking_rejected: HighlightOff,
+};
+
+const fmt = (iso: string) => new Date(iso).toLocaleString([], { dateStyle: "short", timeStyle: "short" });
+
+// Выпадающий список под колокольчиком: непрочитанные выделены, клик отмечает уведомление прочитанным
+export function NotificationCenter({
+  anchorEl,
+  onClose,
+  items,
+  unread,
+  onRead,
+  onReadAll,
+}: {
+  anchorEl: HTMLElement | null;
+  onClose: () => void;
+  items: Notification[];
+  unread: number;
+  onRead: (id: string) => void;
+  onReadAll: () => void;
+}) {
+  return (
+    <Popover
+      open={!!anchorEl}
+      anchorEl={anchorEl}
+      onClose={onClose}
+      anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+      transformOrigin={{ vertical: "top", horizontal: "right" }}
+    >
+      <Box sx={{ width: 380, maxHeight: 480, display: "flex", flexDirection: "column" }}>
+        <Box sx={{ display: "flex", alignItems: "center", px: 2, py: 1 }}>
+          <Typography variant="subtitle1" sx={{ flex: 1 }}>Уведомления</Typography>
+          <Button size="small" onClick={onReadAll} disabled={unread === 0}>Прочитать все</Button>
+        </Box>
+        <Divider />
+        {items.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>Уведомлений нет</Typography>
+        ) : (
+          <List dense sx={{ overflowY: "auto" }}>
+            {items.map((n) => {
+              const Icon = ICONS[n.kind];
+              return (
+                <ListItemButton
+                  key={n.id}
+                  onClick={() => { if (!n.readAt) onRead(n.id); }}
+                  sx={{ alignItems: "flex-start", bgcolor: n.readAt ? undefined : "action.hover" }}
+                >
+                  <ListItemIcon sx={{ minWidth: 36, mt: 0.5 }}>
+                    <Icon fontSize="small" color={n.readAt ? "disabled" : "primary"} />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={n.message}
+                    primaryTypographyProps={{ fontWeight: n.readAt ? 400 : 600 }}
+                    secondary={[
+                      n.startTime && n.endTime ? `${fmt(n.startTime)} — ${fmt(n.endTime)}` : null,
+                      fmt(n.createdAt),
+                    ].filter(Boolean).join(" · ")}
+                  />
+                </ListItemButton>
+              );
+            })}
+          </List>
+        )}
+      </Box>
+    </Popover>
+  );
+}
@@ -0,0 +1,2 @@
+export * from "./NotificationCenter";
+export * from "./useNotifications";
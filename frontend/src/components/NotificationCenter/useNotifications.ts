@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  fetchNotifications, markNotificationRead, markAllNotificationsRead
+} from "@/api/notificationsApi";
+import type { NotificationPage } from "@/api/schema.gen";
+import { useAuth } from "@/context/auth";
+
+const POLL_MS = 60_000;
+
+// Уведомления текущего пользователя. Сервер создаёт их сам (в том числе по таймеру),
+// поэтому список опрашивается раз в минуту и перечитывается при открытии колокольчика.
+export function useNotifications() {
+  const { isAuthenticated } = useAuth();
+  const [data, setData] = useState<NotificationPage | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setData(await fetchNotifications());
+    } catch (e) {
+      console.error(e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    reload();
+    const timer = setInterval(reload, POLL_MS);
+    return () => clearInterval(timer);
+  }, [isAuthenticated, reload]);
+
+  const markRead = async (id: string) => {
+    await markNotificationRead(id);
+    await reload();
+  };
+
+  const markAllRead = async () => {
+    await markAllNotificationsRead();
+    await reload();
+  };
+
+  return {
+    items: isAuthenticated ? data?.items ?? [] : [],
+    unread: isAuthenticated ? data?.unread ?? 0 : 0,
+    reload,
+    markRead,
+    markAllRead,
+  };
+}
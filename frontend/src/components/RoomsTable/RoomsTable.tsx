@@ -1,46 +1,55 @@
 import { useEffect, useState } from "react";
 import {
   Paper, Table, TableHead, TableRow, TableCell, TableBody,
-  Chip, CircularProgress, Box, IconButton, Stack, Typography
+  Chip, CircularProgress, Box, IconButton, Stack, Typography, TablePagination
 } from "@mui/material";
 import { VisibilityOutlined, EditOutlined, DeleteOutline, Groups2Outlined } from "@mui/icons-material";
-import { fetchRooms, type RoomDto } from "@/api/roomsApi";
+import { fetchRooms } from "@/api/roomsApi";
+import { fetchEquipment } from "@/api/equipmentApi";
+import { errorMessage } from "@/api/problem";
+import type { Room } from "@/api/schema.gen";
 
-const STATUS_LABEL: Record<RoomDto["status"], string> = {
+const STATUS_LABEL: Record<Room["status"], string> = {
   available: "Доступна",
   booked: "Забронирована",
   maintenance: "На обслуживании",
 };
-const STATUS_COLOR: Record<RoomDto["status"], "success" | "warning" | "default"> = {
+const STATUS_COLOR: Record<Room["status"], "success" | "warning" | "default"> = {
   available: "success",
   booked: "warning",
   maintenance: "default",
 };
-const EQUIP_LABEL: Record<string, string> = {
-  projector: "Проектор", microphone: "Микрофон", wifi: "Wi-Fi",
-  computers: "Компьютеры", board: "Доска",
-};
 
 export function RoomsTable() {
   const [loading, setLoading] = useState(true);
   const [error, setError]     = useState<string | null>(null);
-  const [items, setItems]     = useState<RoomDto[]>([]);
+  const [items, setItems]     = useState<Room[]>([]);
+  const [page, setPage]       = useState(1);
+  const [total, setTotal]     = useState(0);
+  const [pageSize, setPageSize] = useState(20);
+  // Подписи оборудования берутся из справочника на сервере: код -> название
+  const [equipLabel, setEquipLabel] = useState<Record<string, string>>({});
 
   useEffect(() => {
     let mounted = true;
     (async () => {
       try {
         setLoading(true);
-        const data = await fetchRooms(1);
-        if (mounted) setItems(data.items);
+        const [data, equipment] = await Promise.all([fetchRooms(page), fetchEquipment()]);
+        if (mounted) {
+          setItems(data.items);
+          setTotal(data.total);
+          setPageSize(data.pageSize);
+          setEquipLabel(Object.fromEntries(equipment.map((e) => [e.code, e.label])));
+        }
       } catch (e) {
-        if (mounted) setError((e as Error).message || "Ошибка загрузки");
+        if (mounted) setError(errorMessage(e, "Ошибка загрузки"));
       } finally {
         if (mounted) setLoading(false);
       }
     })();
     return () => { mounted = false; };
-  }, []);
+  }, [page]);
 
   if (loading) return <Box sx={{ p: 3, display: "grid", placeItems: "center" }}><CircularProgress /></Box>;
   if (error)   return <Box sx={{ p: 3 }}><Typography color="error">Не удалось загрузить данные: {error}</Typography></Box>;
@@ -75,7 +84,7 @@ export function RoomsTable() {
               </TableCell>
               <TableCell>
                 <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
-                  {r.equipment.map((k) => <Chip key={k} label={EQUIP_LABEL[k] ?? k} size="small" variant="outlined" />)}
+                  {r.equipment.map((k) => <Chip key={k} label={equipLabel[k] ?? k} size="small" variant="outlined" />)}
                 </Stack>
               </TableCell>
               <TableCell>
@@ -95,6 +104,15 @@ export function RoomsTable() {
           ))}
         </TableBody>
       </Table>
+      <TablePagination
+        component="div"
+        count={total}
+        page={page - 1}
+        rowsPerPage={pageSize}
+        rowsPerPageOptions={[pageSize]}
+        onPageChange={(_, p) => setPage(p + 1)}
+        labelDisplayedRows={({ from, to, count }) => `${from}–${to} из ${count}`}
+      />
     </Paper>
   );
 }
\ No newline at end of file
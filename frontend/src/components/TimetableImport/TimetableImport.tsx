@@ -0,0 +1,109 @@
+import { useState } from "react";
+import {
+  Paper, Typography, Box, Button, Chip, Table, TableHead, TableRow, TableCell, TableBody
+} from "@mui/material";
+import { UploadFileOutlined } from "@mui/icons-material";
+import { importTimetable, type ImportStatus } from "@/api/bookingsApi";
+import { errorMessage } from "@/api/problem";
+import type { TimetableImportReport } from "@/api/schema.gen";
+
+const STATUS: Record<ImportStatus, { label: string; color: "success" | "warning" | "error" | "default" }> = {
+  ok: { label: "Будет создано", color: "success" },
+  partial: { label: "Частично", color: "warning" },
+  conflict: { label: "Конфликт", color: "error" },
+  unknownRoom: { label: "Нет аудитории", color: "error" },
+  invalid: { label: "Ошибка", color: "error" },
+  past: { label: "Прошло", color: "default" },
+};
+
+// Импорт расписания из .ics: сначала предпросмотр с отчётом по каждому событию, затем создание одной транзакцией
+export function TimetableImport({ onImported }: { onImported: () => void }) {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [report, setReport] = useState<TimetableImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const preview = async (picked: File) => {
+    const text = await picked.text();
+    setFile({ name: picked.name, text });
+    setReport(null);
+    try {
+      setBusy(true);
+      setReport(await importTimetable(text, false));
+    } catch (e) {
+      alert(errorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commit = async () => {
+    if (!file) return;
+    try {
+      setBusy(true);
+      const result = await importTimetable(file.text, true);
+      alert(`Создано бронирований: ${result.created}`);
+      setFile(null);
+      setReport(null);
+      onImported();
+    } catch (e) {
+      alert(errorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importable = report?.events.filter((e) => e.status === "ok" || e.status === "partial").length ?? 0;
+
+  return (
+    <Paper sx={{ p: 2, mb: 4 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+        <Typography variant="subtitle1" sx={{ flex: 1 }}>Импорт расписания (.ics)</Typography>
+        {file && <Typography variant="body2" color="text.secondary">{file.name}</Typography>}
+        <Button component="label" variant="outlined" startIcon={<UploadFileOutlined />} disabled={busy}>
+          Выбрать файл
+          <input
+            hidden
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={(e) => { const f = e.target.files?.[0]; e.target.value = ""; if (f) preview(f); }}
+          />
+        </Button>
+        <Button variant="contained" onClick={commit} disabled={busy || importable === 0}>
+          Импортировать {importable > 0 && `(${importable})`}
+        </Button>
+      </Box>
+
+      {report && (
+        <Table size="small" sx={{ mt: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Событие</TableCell>
+              <TableCell>Место</TableCell>
+              <TableCell>Начало</TableCell>
+              <TableCell>Статус</TableCell>
+              <TableCell>Подробности</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {report.events.map((e, i) => (
+              <TableRow key={e.uid ?? i}>
+                <TableCell>{e.summary || "—"}</TableCell>
+                <TableCell>{e.location || "—"}</TableCell>
+                <TableCell>{e.startTime ? new Date(e.startTime).toLocaleString() : "—"}</TableCell>
+                <TableCell><Chip size="small" label={STATUS[e.status].label} color={STATUS[e.status].color} /></TableCell>
+                <TableCell sx={{ whiteSpace: "pre-line" }}>
+                  {[
+                    e.detail,
+                    ...(e.occurrences ?? []).map((o) =>
+                      `${new Date(o.startTime).toLocaleString()}${o.inFile ? " — пересекается с другим событием файла" : ""}`
+                    ),
+                  ].filter(Boolean).join("\n")}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
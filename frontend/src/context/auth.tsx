@@ -1,43 +1,40 @@
 import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import * as authApi from "@/api/authApi";
+import type { LoginBody, RegisterBody, Role } from "@/api/authApi";
+import type { User } from "@/api/schema.gen";
 
-export interface UserBrief { id?: string; name?: string; avatarUrl?: string; }
+export interface UserBrief { id?: string; email?: string; name?: string; avatarUrl?: string; role?: Role; }
 export interface AuthContextValue {
   user: UserBrief | null;
   isAuthenticated: boolean;
   loading: boolean;
-  signIn(profile: UserBrief): void | Promise<void>;
-  signOut(): void | Promise<void>;
-  update(patch: Partial<UserBrief>): void;
+  signIn(credentials: LoginBody): Promise<void>;
+  signUp(profile: RegisterBody): Promise<void>;
+  signOut(): Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextValue | null>(null);
-const STORAGE_KEY = "rb:user";
+
+const toBrief = (u: User): UserBrief => ({ id: u.id, email: u.email, name: u.name ?? u.email, role: u.role });
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<UserBrief | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // Сессия живёт в httpOnly-cookie, поэтому о текущем пользователе спрашиваем сервер
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) setUser(JSON.parse(raw));
-    } finally {
-      setLoading(false);
-    }
+    authApi.fetchMe()
+      .then((u) => setUser(u ? toBrief(u) : null))
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
   }, []);
 
-  useEffect(() => {
-    if (loading) return;
-    if (user) localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
-    else localStorage.removeItem(STORAGE_KEY);
-  }, [user, loading]);
-
-  const signIn = (profile: UserBrief) => setUser(profile);
-  const signOut = () => setUser(null);
-  const update = (p: Partial<UserBrief>) => setUser((u) => ({ ...(u ?? {}), ...p }));
+  const signIn = async (credentials: LoginBody) => setUser(toBrief(await authApi.login(credentials)));
+  const signUp = async (profile: RegisterBody) => setUser(toBrief(await authApi.register(profile)));
+  const signOut = async () => { await authApi.logout(); setUser(null); };
 
   const value = useMemo<AuthContextValue>(
-    () => ({ user, isAuthenticated: !!user, loading, signIn, signOut, update }),
+    () => ({ user, isAuthenticated: !!user, loading, signIn, signUp, signOut }),
     [user, loading]
   );
 
@@ -48,4 +45,4 @@ export function useAuth() {
   const ctx = useContext(AuthContext);
   if (!ctx) throw new Error("useAuth must be used within <AuthProvider>");
   return ctx;
-}
\ No newline at end of file
+}
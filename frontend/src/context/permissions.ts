@@ -0,0 +1,7 @@
+import type { UserBrief } from "./auth";
+
+// Те же правила, что и у preHandler-гардов на сервере: здесь они только прячут недоступные кнопки.
+export const canManageCatalog = (user: UserBrief | null) => user?.role === "admin";
+
+export const canManageAnyBooking = (user: UserBrief | null) =>
+  user?.role === "admin" || user?.role === "manager";
@@ -1,6 +1,6 @@
-import type { RoomsResponseDto } from "@/api/roomsApi";
+import type { Equipment, RoomPage } from "@/api/schema.gen";
 
-export const roomsPayload: RoomsResponseDto = {
+export const roomsPayload: RoomPage = {
   items: [
     { id: "201", code: "201", name: "Конференц-зал", capacity: 50, equipment: ["projector","microphone","wifi"], status: "available" },
     { id: "101", code: "101", name: "Лекционная аудитория", capacity: 120, equipment: ["projector","wifi"], status: "available" },
@@ -8,5 +8,14 @@ export const roomsPayload: RoomsResponseDto = {
     { id: "202", code: "202", name: "Семинарская", capacity: 25, equipment: ["board","wifi"], status: "maintenance" },
   ],
   page: 1,
+  pageSize: 20,
   total: 156,
-};
\ No newline at end of file
+};
+
+export const equipmentPayload: Equipment[] = [
+  { id: "projector", code: "projector", label: "Проектор" },
+  { id: "microphone", code: "microphone", label: "Микрофон" },
+  { id: "wifi", code: "wifi", label: "Wi-Fi" },
+  { id: "computers", code: "computers", label: "Компьютеры" },
+  { id: "board", code: "board", label: "Доска" },
+];
@@ -1,5 +1,5 @@
 import { http as msw, HttpResponse } from "msw";
-import { roomsPayload } from "./data";
+import { roomsPayload, equipmentPayload } from "./data";
 
 export const handlers = [
   msw.get("/api/rooms", ({ request }) => {
@@ -7,4 +7,5 @@ export const handlers = [
     const page = Number(url.searchParams.get("page") ?? "1");
     return HttpResponse.json({ ...roomsPayload, page });
   }),
+  msw.get("/api/equipment", () => HttpResponse.json(equipmentPayload)),
 ];
\ No newline at end of file